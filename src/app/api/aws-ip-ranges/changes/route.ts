@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChangeLog } from '@/lib/change-log';
+import { filterDiff } from '@/lib/diff';
+import { ChangesResponse } from '@/types';
+import { searchRateLimit } from '@/lib/rate-limit';
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/changes:
+ *   get:
+ *     summary: Change history of the AWS IP ranges
+ *     description: Lists each AWS publish detected by the background sync, newest first, with the prefixes added, removed and changed by it. Filter by region and service to see only the changes that affect you.
+ *     tags:
+ *       - AWS IP Ranges
+ *     parameters:
+ *       - $ref: '#/components/parameters/Regions'
+ *       - $ref: '#/components/parameters/Services'
+ *       - name: limit
+ *         in: query
+ *         description: Maximum number of publishes to return (max 100)
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Change log entries, newest first
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (10 requests/minute)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining requests in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChangesResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ */
+export async function GET(request: NextRequest) {
+  return searchRateLimit(request, async () => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const regions = searchParams.get('regions')?.split(',').filter(Boolean) || [];
+    const services = searchParams.get('services')?.split(',').filter(Boolean) || [];
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+
+    const entries = await getChangeLog();
+
+    const response: ChangesResponse = {
+      changes: entries
+        .slice(0, limit)
+        .map((entry) => filterDiff(entry, { regions, services })),
+      filters: {
+        regions,
+        services,
+      },
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'X-Data-Source': 'AWS IP Ranges API (Change Log)',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges changes API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load change history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedData } from '@/lib/cache';
+import { getSnapshot } from '@/lib/snapshots';
+import { getPrefixIndex, classifyAddresses } from '@/lib/prefix-index';
+import { ClassifyResponse } from '@/types';
+import { classifyRateLimit } from '@/lib/rate-limit';
+
+const MAX_BATCH_SIZE = 5000;
+// Room for a full batch of the longest IPv6 CIDRs, quoted and comma-separated
+const MAX_BODY_BYTES = 256 * 1024;
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body must not exceed ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, BodyTooLargeError.prototype);
+  }
+}
+
+/**
+ * Reads the request body as text, giving up as soon as it grows past
+ * MAX_BODY_BYTES. Covers chunked requests that send no Content-Length.
+ */
+async function readBody(request: NextRequest): Promise<string> {
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let body = '';
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    received += chunk.value.byteLength;
+    if (received > MAX_BODY_BYTES) {
+      await reader.cancel();
+      throw new BodyTooLargeError();
+    }
+    body += decoder.decode(chunk.value, { stream: true });
+  }
+
+  return body + decoder.decode();
+}
+
+/**
+ * Reads the batch of addresses from the request body.
+ * Accepts a JSON array of strings or newline-separated plain text.
+ */
+async function parseBatch(request: NextRequest): Promise<string[]> {
+  const body = await readBody(request);
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('application/json')) {
+    const parsed = JSON.parse(body);
+    if (!Array.isArray(parsed) || !parsed.every((item) => typeof item === 'string')) {
+      throw new Error('JSON body must be an array of IP address or CIDR strings');
+    }
+    return parsed.map((item: string) => item.trim()).filter(Boolean);
+  }
+
+  return body
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/classify:
+ *   post:
+ *     summary: Classify a batch of IPs or CIDRs
+ *     description: Checks up to 5,000 IP addresses or CIDR blocks at once and returns the AWS prefixes overlapping each one (up to 100 per input), or marks it as not AWS. Each address in the batch, and each matching prefix returned, counts against the rate limit. A batch is accepted while the client is under its limit and charged once it has been classified.
+ *     tags:
+ *       - AWS IP Ranges
+ *     parameters:
+ *       - $ref: '#/components/parameters/SyncToken'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             maxItems: 5000
+ *             items:
+ *               type: string
+ *             example: ['52.95.110.1', '3.5.140.0/22', '8.8.8.8']
+ *         text/plain:
+ *           schema:
+ *             type: string
+ *             description: One IP address or CIDR per line
+ *     responses:
+ *       200:
+ *         description: Classification for each input, in request order
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (20,000 addresses and matches/10 minutes)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining addresses and matches in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassifyResponse'
+ *       400:
+ *         description: Malformed body or batch too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: Request body larger than 256 KiB
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export async function POST(request: NextRequest) {
+  // Refuse oversized bodies before reading any of them
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_BODY_BYTES) {
+    return NextResponse.json(
+      {
+        error: 'Request body too large',
+        message: new BodyTooLargeError().message,
+        timestamp: new Date().toISOString()
+      },
+      { status: 413 }
+    );
+  }
+
+  // Rate limit cost scales with the batch size and the matches returned, both
+  // charged once known; the body is only read for clients under their limit
+  return classifyRateLimit(request, async (charge) => {
+  let inputs: string[];
+  try {
+    inputs = await parseBatch(request);
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      return NextResponse.json(
+        {
+          error: 'Request body too large',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 413 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Invalid request body',
+        message: error instanceof Error ? error.message : 'Unable to parse request body',
+        timestamp: new Date().toISOString()
+      },
+      { status: 400 }
+    );
+  }
+
+  if (inputs.length === 0 || inputs.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      {
+        error: 'Invalid batch size',
+        message: `Provide between 1 and ${MAX_BATCH_SIZE} IP addresses or CIDRs`,
+        timestamp: new Date().toISOString()
+      },
+      { status: 400 }
+    );
+  }
+
+  // The request itself was charged one unit up front
+  charge(inputs.length - 1);
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Get cached AWS data, or a stored snapshot when a syncToken is requested
+    const syncToken = searchParams.get('syncToken');
+    const awsData = syncToken ? await getSnapshot(syncToken) : await getCachedData();
+
+    if (!awsData && syncToken) {
+      return NextResponse.json(
+        {
+          error: 'Version not found',
+          message: `No snapshot is stored for syncToken "${syncToken}". See /api/aws-ip-ranges/versions for available versions.`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!awsData) {
+      return NextResponse.json(
+        {
+          error: 'Data not available yet',
+          message: 'Background sync is initializing. Please try again in a few moments.',
+          timestamp: new Date().toISOString()
+        },
+        { status: 503 }
+      );
+    }
+
+    const results = classifyAddresses(getPrefixIndex(awsData), inputs);
+    charge(results.reduce((total, result) => total + result.matches.length, 0));
+
+    const response: ClassifyResponse = {
+      results,
+      summary: {
+        total: results.length,
+        aws: results.filter((result) => result.status === 'aws').length,
+        notAWS: results.filter((result) => result.status === 'not-aws').length,
+        invalid: results.filter((result) => result.status === 'invalid').length,
+      },
+      syncToken: awsData.syncToken,
+      createDate: awsData.createDate,
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'X-Data-Source': 'AWS IP Ranges API (Bulk Classification)',
+        'X-Sync-Token': awsData.syncToken,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges classify API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to classify addresses',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
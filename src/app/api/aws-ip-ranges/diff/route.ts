@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedData } from '@/lib/cache';
+import { getSnapshot, getPreviousSnapshot } from '@/lib/snapshots';
+import { diffAWSIPRanges } from '@/lib/diff';
+import { searchRateLimit } from '@/lib/rate-limit';
+
+function versionNotFound(message: string) {
+  return NextResponse.json(
+    {
+      error: 'Version not found',
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/diff:
+ *   get:
+ *     summary: Compare two versions of the AWS IP ranges
+ *     description: Returns prefixes added and removed between two stored versions, and prefixes whose region, service or network border group entries changed. Defaults to the previous stored version compared with the current data.
+ *     tags:
+ *       - AWS IP Ranges
+ *     parameters:
+ *       - name: from
+ *         in: query
+ *         description: syncToken of the older version (defaults to the version published before "to")
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: '1705314645'
+ *       - name: to
+ *         in: query
+ *         description: syncToken of the newer version (defaults to the current data)
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: '1705401045'
+ *     responses:
+ *       200:
+ *         description: Differences between the two versions
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (10 requests/minute)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining requests in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DiffResponse'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export async function GET(request: NextRequest) {
+  return searchRateLimit(request, async () => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fromToken = searchParams.get('from');
+    const toToken = searchParams.get('to');
+
+    // Newer side: the requested snapshot or the current data
+    const toData = toToken ? await getSnapshot(toToken) : await getCachedData();
+
+    if (!toData && toToken) {
+      return versionNotFound(`No snapshot is stored for syncToken "${toToken}". See /api/aws-ip-ranges/versions for available versions.`);
+    }
+
+    if (!toData) {
+      return NextResponse.json(
+        {
+          error: 'Data not available yet',
+          message: 'Background sync is initializing. Please try again in a few moments.',
+          timestamp: new Date().toISOString()
+        },
+        { status: 503 }
+      );
+    }
+
+    // Older side: the requested snapshot or the version published before "to"
+    const fromData = fromToken ? await getSnapshot(fromToken) : await getPreviousSnapshot(toData);
+
+    if (!fromData) {
+      return versionNotFound(
+        fromToken
+          ? `No snapshot is stored for syncToken "${fromToken}". See /api/aws-ip-ranges/versions for available versions.`
+          : `No version older than ${toData.syncToken} is stored yet.`
+      );
+    }
+
+    const diff = diffAWSIPRanges(fromData, toData);
+
+    return NextResponse.json(diff, {
+      status: 200,
+      headers: {
+        // Explicit versions never change; the default comparison moves with each sync
+        'Cache-Control': fromToken && toToken
+          ? 'public, s-maxage=86400, immutable'
+          : 'public, s-maxage=60, stale-while-revalidate=300',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'X-Data-Source': 'AWS IP Ranges API (Version Diff)',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges diff API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compare versions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
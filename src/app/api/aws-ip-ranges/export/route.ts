@@ -1,29 +1,267 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedData } from '@/lib/cache';
-import { transformAWSIPRanges, filterPrefixes, sortPrefixes } from '@/lib/api';
-import { SortField, SortDirection } from '@/types';
+import { getSnapshot } from '@/lib/snapshots';
+import { sortPrefixes, parseMatchMode, excludeServiceAddresses, extractRegions, extractServices } from '@/lib/api';
+import { filterIndexedPrefixes, getPrefixIndex } from '@/lib/prefix-index';
+import { aggregatePrefixes } from '@/lib/cidr-set';
+import { AWSIPRanges, SortField, SortDirection } from '@/types';
+import { EXPORT_FORMATS, EXPORT_FORMATTERS, ExportOptionsError, exportFilename, parseExportFormat, streamLines } from '@/lib/export-formats';
 import { exportRateLimit } from '@/lib/rate-limit';
+import { getCacheValidators, validatorHeaders, withNotModified } from '@/lib/conditional-get';
+
+// Formats that list the matching entries as data. Like /search, an unknown
+// region or service there just matches nothing.
+const DATA_FORMATS = ['json', 'csv', 'ndjson', 'txt'];
+
+function responseHeaders(awsData: AWSIPRanges): Record<string, string> {
+  return {
+    // Short cache since this is dynamic content
+    'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+    'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+    'Access-Control-Allow-Methods': 'GET',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'X-Data-Source': 'AWS IP Ranges API (Export - All Results)',
+    'X-Sync-Token': awsData.syncToken,
+  };
+}
 
 /**
  * @swagger
  * /api/aws-ip-ranges/export:
  *   get:
  *     summary: Export filtered AWS IP ranges
- *     description: Export AWS IP ranges with filtering and sorting applied. Returns all matching records (no pagination). Use this for generating CSV files or bulk data processing.
+ *     description: Export AWS IP ranges with filtering and sorting applied. Returns all matching records (no pagination). Use format=csv, ndjson or txt to download the results as a file or plain CIDR list, format=ipset, iptables and nftables for ready-to-load firewall configuration, format=prefix-list and security-group for AWS EC2 CLI input, or format=terraform, cloudformation, cloudformation-json and cdk-ts for infrastructure as code, format=k8s, cilium and calico for Kubernetes egress policies, format=nginx, nginx-geo, haproxy, apache and caddy for reverse proxy allow-lists, or format=cisco, juniper, mikrotik and pf for network devices.
  *     tags:
  *       - AWS IP Ranges
  *     parameters:
  *       - $ref: '#/components/parameters/Regions'
  *       - $ref: '#/components/parameters/Services'
+ *       - $ref: '#/components/parameters/ExcludeServices'
  *       - $ref: '#/components/parameters/SearchTerm'
+ *       - $ref: '#/components/parameters/MatchMode'
  *       - $ref: '#/components/parameters/IncludeIPv4'
  *       - $ref: '#/components/parameters/IncludeIPv6'
+ *       - $ref: '#/components/parameters/Aggregate'
  *       - $ref: '#/components/parameters/SortField'
  *       - $ref: '#/components/parameters/SortDirection'
+ *       - $ref: '#/components/parameters/SyncToken'
+ *       - name: format
+ *         in: query
+ *         description: Response format. "txt" streams one CIDR per line as text/plain, each CIDR listed once. "csv" and "ndjson" stream one row per entry as a file download. "ipset" is an `ipset restore` file with one hash:net set per address family, and "iptables" the matching `iptables-restore` rules. "nftables" is an `nft -f` script with aggregated interval sets. "prefix-list" and "security-group" are JSON arrays of `--cli-input-json` documents for `aws ec2 create-managed-prefix-list` (or `modify-managed-prefix-list`) and `authorize-security-group-ingress`, chunked to stay within AWS limits. "terraform" is HCL (Terraform or OpenTofu) with a `locals` list of CIDRs per family in address order, plus `aws_ec2_managed_prefix_list` and `aws_security_group_rule` resources built from them. "cloudformation" (YAML) and "cloudformation-json" are templates of `AWS::EC2::PrefixList` and `AWS::EC2::SecurityGroupIngress` resources, split into several templates (YAML documents or JSON array elements) when one would exceed 51,200 bytes or 500 resources. "cdk-ts" is a TypeScript module exporting `as const` arrays of CIDRs. "k8s" is a NetworkPolicy allowing egress to each CIDR as an `ipBlock`, "cilium" a CiliumNetworkPolicy using `toCIDRSet`, and "calico" a Calico GlobalNetworkSet. "nginx" is an include of `allow`/`deny` directives, "nginx-geo" a `geo` block, "haproxy" an ACL pattern file, "apache" a `Require ip` block and "caddy" a `remote_ip` named matcher. "cisco" is IOS or NX-OS object-groups and prefix-lists, "juniper" Junos set commands for a policy-options prefix-list, "mikrotik" a RouterOS address-list script, and "pf" a pf table file.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [json, txt, csv, ndjson, ipset, iptables, nftables, prefix-list, security-group, terraform, cloudformation, cloudformation-json, cdk-ts, k8s, cilium, calico, nginx, nginx-geo, haproxy, apache, caddy, cisco, juniper, mikrotik, pf]
+ *           default: json
+ *       - name: comments
+ *         in: query
+ *         description: For the txt format, start with "#" comment lines giving the syncToken, createDate and applied filters
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: setName
+ *         in: query
+ *         description: For the ipset and iptables formats, base name of the sets; "-v4" and "-v6" are appended per address family (default aws-ip-ranges). For nftables, "_ipv4" and "_ipv6" are appended (default aws).
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - name: table
+ *         in: query
+ *         description: For the nftables format, name of the inet table holding the sets. The table is replaced on each load.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           pattern: '^[A-Za-z][A-Za-z0-9_]{0,26}$'
+ *           default: aws_ip_ranges
+ *       - name: rule
+ *         in: query
+ *         description: For the nftables format, add an example base chain that accepts or drops traffic matching the sets
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [none, accept, drop]
+ *           default: none
+ *       - name: chain
+ *         in: query
+ *         description: For the iptables format, chain the rule is appended to. Chains other than INPUT, OUTPUT and FORWARD are created (and flushed) on load.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           pattern: '^[A-Za-z0-9_-]{1,28}$'
+ *           default: INPUT
+ *       - name: target
+ *         in: query
+ *         description: For the iptables format, what to do with matching packets
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [ACCEPT, DROP]
+ *           default: ACCEPT
+ *       - name: direction
+ *         in: query
+ *         description: For the iptables and nftables formats, match the source (src) or destination (dst) address against the set. With nftables, dst rules hook output instead of input.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [src, dst]
+ *           default: src
+ *       - name: family
+ *         in: query
+ *         description: For the iptables format, emit iptables (inet) or ip6tables (inet6) rules. Defaults to inet, or inet6 when includeIPv4=false.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [inet, inet6]
+ *       - name: name
+ *         in: query
+ *         description: For the prefix-list, terraform, cloudformation and cdk-ts formats, base name of the lists and identifiers. For k8s, cilium and calico, the resource name (an RFC 1123 label). For nginx-geo and caddy, the variable or matcher name, with "-" replaced by "_". For cisco, juniper, mikrotik and pf, the object-group, prefix-list, address-list or table name.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: aws-ip-ranges
+ *       - name: action
+ *         in: query
+ *         description: For the prefix-list format, emit create-managed-prefix-list input (Entries) or modify-managed-prefix-list input (AddEntries) for the list given by prefixListId, currentVersion and targetMaxEntries. modify needs a single address family (includeIPv4=false or includeIPv6=false).
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [create, modify]
+ *           default: create
+ *       - name: prefixListId
+ *         in: query
+ *         description: For the prefix-list format with action=modify, the prefix list the entries are added to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           pattern: '^pl-[0-9a-f]{8,17}$'
+ *       - name: currentVersion
+ *         in: query
+ *         description: For the prefix-list format with action=modify, the list's current version. Each further modify call expects the next version.
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - name: targetMaxEntries
+ *         in: query
+ *         description: For the prefix-list format with action=modify, the MaxEntries of the list to add to. Exports with more entries than that are rejected with a 400; entries already in the list count towards it too.
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *       - name: maxEntries
+ *         in: query
+ *         description: Entries per prefix list. For the prefix-list format up to 100 (the default), the most one API call accepts. For terraform, cloudformation and cdk-ts up to 1000; the default is 60 (the default security group rules quota, which a referenced list counts its size against) when security group rules are generated, and 1000 otherwise.
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *       - name: protocol
+ *         in: query
+ *         description: For the security-group, terraform and cloudformation formats, IP protocol of the rules ("-1" for all traffic)
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [tcp, udp, icmp, '-1']
+ *           default: tcp
+ *       - name: port
+ *         in: query
+ *         description: For the security-group, terraform and cloudformation formats, port or port range such as 1024-65535
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: '443'
+ *       - name: rulesPerGroup
+ *         in: query
+ *         description: For the security-group format, IPv4 and IPv6 rules per security group before starting another
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *           default: 60
+ *       - name: resources
+ *         in: query
+ *         description: For the terraform and cloudformation formats, emit prefix lists and security group rules (all) or only prefix lists. Terraform also accepts none, for only the locals.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [all, prefix-list, none]
+ *           default: all
+ *       - name: securityGroupId
+ *         in: query
+ *         description: For the terraform and cloudformation formats, security group the rules are added to. Without it, a variable or template parameter is declared for it. For the security-group format, the GroupId of each input, comma-separated when the rules span several groups.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           pattern: '^sg-[0-9a-f]{8,17}(,sg-[0-9a-f]{8,17})*$'
+ *       - name: namespace
+ *         in: query
+ *         description: For the k8s and cilium formats, namespace of the policy
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: default
+ *       - name: labels
+ *         in: query
+ *         description: For the k8s, cilium and calico formats, metadata labels as comma-separated key=value pairs (default app.kubernetes.io/managed-by=ipmapaws)
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: team=platform,egress=s3
+ *       - name: podSelector
+ *         in: query
+ *         description: For the k8s and cilium formats, labels of the pods the policy applies to, as comma-separated key=value pairs. Without it, the policy applies to every pod in the namespace.
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: app=uploader
+ *       - name: dns
+ *         in: query
+ *         description: For the k8s and cilium formats, also allow egress to the cluster DNS (kube-dns pods in kube-system) on UDP and TCP port 53, which resolving AWS hostnames needs. Set to false to leave it out.
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - name: mode
+ *         in: query
+ *         description: For the nginx and apache formats, allow only the matching addresses (allow) or block them (deny)
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [allow, deny]
+ *           default: allow
+ *       - name: platform
+ *         in: query
+ *         description: For the cisco format, IOS (object-group network with netmasks, IPv4 only) or NX-OS (object-group ip/ipv6 address with wildcard masks)
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [ios, nxos]
+ *           default: ios
+ *       - name: descriptions
+ *         in: query
+ *         description: For the prefix-list and security-group formats, describe each entry with its services and regions
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *       - $ref: '#/components/parameters/IfModifiedSince'
  *     responses:
  *       200:
  *         description: All matching AWS IP ranges for export
  *         headers:
+ *           ETag:
+ *             description: Validator for this version of the data and query; send it back as If-None-Match
+ *             schema:
+ *               type: string
+ *           Last-Modified:
+ *             description: AWS createDate of the data
+ *             schema:
+ *               type: string
  *           X-RateLimit-Limit:
  *             description: Rate limit threshold (5 requests/10 minutes)
  *             schema:
@@ -40,16 +278,67 @@ import { exportRateLimit } from '@/lib/rate-limit';
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ExportResponse'
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: "3.5.140.0/22\n13.34.37.64/27\n"
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               example: "prefix,region,service,network_border_group,type\n3.5.140.0/22,ap-northeast-2,AMAZON,ap-northeast-2,ipv4\n"
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *               example: '{"prefix":"3.5.140.0/22","region":"ap-northeast-2","service":"AMAZON","network_border_group":"ap-northeast-2","type":"ipv4"}'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       400:
+ *         description: Unknown export format or invalid format option, or for formats other than json, csv, ndjson and txt an unknown region or service
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
  *       429:
  *         $ref: '#/components/responses/RateLimitExceeded'
  *       503:
  *         $ref: '#/components/responses/ServiceUnavailable'
  */
 export async function GET(request: NextRequest) {
-  return exportRateLimit(request, async () => {
+  // Get cached AWS data, or a stored snapshot when a syncToken is requested
+  const syncToken = new URL(request.url).searchParams.get('syncToken');
+  const loadVersion = () => syncToken ? getSnapshot(syncToken) : getCachedData();
+
+  // Clients whose copy is current get a 304 before the rate limit is checked
+  return withNotModified(request, loadVersion, responseHeaders, (preloaded) => exportRateLimit(request, async () => {
   try {
-    // Get cached AWS data
-    const awsData = await getCachedData();
+    const { searchParams } = new URL(request.url);
+
+    const format = parseExportFormat(searchParams.get('format'));
+    if (!format) {
+      return NextResponse.json(
+        {
+          error: 'Invalid format',
+          message: `Unknown export format "${searchParams.get('format')}". Supported formats: ${EXPORT_FORMATS.join(', ')}`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    const awsData = preloaded || await loadVersion();
+
+    if (!awsData && syncToken) {
+      return NextResponse.json(
+        {
+          error: 'Version not found',
+          message: `No snapshot is stored for syncToken "${syncToken}". See /api/aws-ip-ranges/versions for available versions.`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
     
     if (!awsData) {
       return NextResponse.json(
@@ -62,64 +351,137 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const headers = responseHeaders(awsData);
+    const validators = getCacheValidators(awsData, searchParams);
+
     // Parse query parameters (same as search endpoint but no pagination)
-    const { searchParams } = new URL(request.url);
-    
     // Parse filter parameters
     const regions = searchParams.get('regions')?.split(',').filter(Boolean) || [];
     const services = searchParams.get('services')?.split(',').filter(Boolean) || [];
+    const excludeServices = searchParams.get('excludeServices')?.split(',').filter(Boolean) || [];
     const searchTerm = searchParams.get('searchTerm') || '';
+    const matchMode = parseMatchMode(searchParams.get('matchMode'));
     const includeIPv4 = searchParams.get('includeIPv4') !== 'false';
     const includeIPv6 = searchParams.get('includeIPv6') !== 'false';
+    const aggregate = searchParams.get('aggregate') === 'true';
+    
+    // Names end up in generated configs, so only ones present in the data are accepted there
+    if (DATA_FORMATS.indexOf(format) === -1) {
+      const knownRegions = extractRegions(awsData);
+      const knownServices = extractServices(awsData);
+      const unknownRegions = regions.filter((region) => knownRegions.indexOf(region) === -1);
+      const unknownServices = services.concat(excludeServices).filter((service) => knownServices.indexOf(service) === -1);
+      if (unknownRegions.length > 0 || unknownServices.length > 0) {
+        const unknown = [
+          unknownRegions.length > 0 && `regions: ${unknownRegions.join(', ')}`,
+          unknownServices.length > 0 && `services: ${unknownServices.join(', ')}`,
+        ].filter(Boolean).join('; ');
+        return NextResponse.json(
+          {
+            error: 'Invalid filters',
+            message: `Unknown ${unknown}`,
+            timestamp: new Date().toISOString()
+          },
+          { status: 400 }
+        );
+      }
+    }
     
     // Parse sorting parameters
     const sortField = (searchParams.get('sortField') as SortField) || 'prefix';
     const sortDirection = (searchParams.get('sortDirection') as SortDirection) || 'asc';
 
-    // Transform AWS data to combined format
-    const combinedPrefixes = transformAWSIPRanges(awsData);
+    // Reuse the shared index (built once per syncToken) for its prefixes and trie
+    const index = getPrefixIndex(awsData);
+    const combinedPrefixes = index.prefixes;
 
     // Apply filtering
-    const filteredPrefixes = filterPrefixes(combinedPrefixes, {
+    const filteredPrefixes = filterIndexedPrefixes(index, {
       regions,
       services,
       searchTerm,
+      matchMode,
       includeIPv4,
       includeIPv6,
     });
 
+    // Subtract excluded services' address space, or collapse nested and adjacent
+    // blocks into the smallest equivalent set of CIDRs
+    const setMode = aggregate || excludeServices.length > 0;
+    const resultPrefixes = excludeServices.length > 0
+      ? excludeServiceAddresses(filteredPrefixes, combinedPrefixes, excludeServices)
+      : aggregate ? aggregatePrefixes(filteredPrefixes) : filteredPrefixes;
+
     // Apply sorting
-    const sortedPrefixes = sortPrefixes(filteredPrefixes, sortField, sortDirection);
+    const sortedPrefixes = sortPrefixes(resultPrefixes, sortField, sortDirection);
+
+    const filters = {
+      regions,
+      services,
+      excludeServices,
+      searchTerm,
+      matchMode,
+      includeIPv4,
+      includeIPv6,
+    };
+
+    // Text formats are rendered up front, so invalid options still get a 400,
+    // then encoded and sent in chunks instead of as one large string
+    if (format !== 'json') {
+      const version = { syncToken: awsData.syncToken, createDate: awsData.createDate };
+      const formatter = EXPORT_FORMATTERS[format];
+      // Subtracting excluded services yields set-mode CIDRs just like aggregation
+      const lines = formatter.render(sortedPrefixes, { version, filters, aggregated: setMode, options: searchParams });
+
+      return new NextResponse(streamLines(lines), {
+        status: 200,
+        headers: {
+          ...headers,
+          ...validatorHeaders(validators),
+          'Content-Type': formatter.contentType,
+          ...(!formatter.inline && {
+            'Content-Disposition': `attachment; filename="${exportFilename(version, format)}"`,
+          }),
+        },
+      });
+    }
 
     // Return ALL results without pagination for export
     return NextResponse.json({
       data: sortedPrefixes,
       total: sortedPrefixes.length,
-      filters: {
-        regions,
-        services,
-        searchTerm,
-        includeIPv4,
-        includeIPv6,
-      },
+      filters,
       sorting: {
         field: sortField,
         direction: sortDirection,
       },
+      ...(setMode && {
+        aggregation: {
+          inputCount: filteredPrefixes.length,
+          outputCount: resultPrefixes.length,
+        },
+      }),
       timestamp: new Date().toISOString(),
     }, {
       status: 200,
       headers: {
-        // Short cache since this is dynamic content
-        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
-        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        'X-Data-Source': 'AWS IP Ranges API (Export - All Results)',
+        ...headers,
+        ...validatorHeaders(validators),
       },
     });
 
   } catch (error) {
+    if (error instanceof ExportOptionsError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid export options',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
     console.error('Error in AWS IP ranges export API:', error);
     
     return NextResponse.json(
@@ -131,5 +493,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-  });
+  }));
 } 
\ No newline at end of file
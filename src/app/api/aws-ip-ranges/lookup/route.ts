@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedData } from '@/lib/cache';
+import { getSnapshot } from '@/lib/snapshots';
+import { getPrefixIndex, lookupPrefixes } from '@/lib/prefix-index';
+import { parseIP } from '@/lib/ip';
+import { LookupResponse } from '@/types';
+import { searchRateLimit } from '@/lib/rate-limit';
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/lookup:
+ *   get:
+ *     summary: Look up which AWS prefixes contain an IP address
+ *     description: Returns every AWS IP prefix that contains the given IPv4 or IPv6 address, ordered from most to least specific
+ *     tags:
+ *       - AWS IP Ranges
+ *     parameters:
+ *       - name: ip
+ *         in: query
+ *         description: IPv4 or IPv6 address to look up
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 52.95.110.1
+ *       - $ref: '#/components/parameters/SyncToken'
+ *     responses:
+ *       200:
+ *         description: Prefixes containing the address
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (10 requests/minute)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining requests in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LookupResponse'
+ *       400:
+ *         description: Missing or invalid IP address
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export async function GET(request: NextRequest) {
+  return searchRateLimit(request, async () => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ip = searchParams.get('ip')?.trim() || '';
+    const parsed = parseIP(ip);
+
+    if (!parsed) {
+      return NextResponse.json(
+        {
+          error: 'Invalid IP address',
+          message: ip
+            ? `"${ip}" is not a valid IPv4 or IPv6 address`
+            : 'The "ip" query parameter is required',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get cached AWS data, or a stored snapshot when a syncToken is requested
+    const syncToken = searchParams.get('syncToken');
+    const awsData = syncToken ? await getSnapshot(syncToken) : await getCachedData();
+
+    if (!awsData && syncToken) {
+      return NextResponse.json(
+        {
+          error: 'Version not found',
+          message: `No snapshot is stored for syncToken "${syncToken}". See /api/aws-ip-ranges/versions for available versions.`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!awsData) {
+      return NextResponse.json(
+        {
+          error: 'Data not available yet',
+          message: 'Background sync is initializing. Please try again in a few moments.',
+          timestamp: new Date().toISOString()
+        },
+        { status: 503 }
+      );
+    }
+
+    const matches = lookupPrefixes(getPrefixIndex(awsData), ip);
+
+    const response: LookupResponse = {
+      ip,
+      type: parsed.type,
+      isAWS: matches.length > 0,
+      matches,
+      syncToken: awsData.syncToken,
+      createDate: awsData.createDate,
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'X-Data-Source': 'AWS IP Ranges API (IP Lookup)',
+        'X-Sync-Token': awsData.syncToken,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges lookup API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to look up IP address',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
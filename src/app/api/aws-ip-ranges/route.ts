@@ -1,11 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedData } from '@/lib/cache';
+import { getSnapshot } from '@/lib/snapshots';
 import { startBackgroundSync } from '@/lib/background-sync';
+import { validateAWSIPRanges } from '@/lib/feed-validation';
 import { apiRateLimit } from '@/lib/rate-limit';
+import { getCacheValidators, validatorHeaders, withNotModified } from '@/lib/conditional-get';
+import { AWSIPRanges } from '@/types';
 
 // Start background sync when the API is first accessed
 let syncStarted = false;
 
+function responseHeaders(data: AWSIPRanges): Record<string, string> {
+  return {
+    // Cache for 1 hour on CDN, allow stale while revalidating for 24 hours
+    'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+    // Add CORS headers for development
+    'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+    'Access-Control-Allow-Methods': 'GET',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    // Add custom headers for debugging
+    'X-Data-Source': 'AWS IP Ranges API (Cached)',
+    'X-Last-Updated': data.createDate,
+    'X-Sync-Token': data.syncToken,
+    'X-Cache-Status': 'HIT',
+  };
+}
+
 /**
  * @swagger
  * /api/aws-ip-ranges:
@@ -14,10 +34,22 @@ let syncStarted = false;
  *     description: Returns the complete AWS IP ranges dataset in the original format from Amazon
  *     tags:
  *       - AWS IP Ranges
+ *     parameters:
+ *       - $ref: '#/components/parameters/SyncToken'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *       - $ref: '#/components/parameters/IfModifiedSince'
  *     responses:
  *       200:
  *         description: AWS IP ranges data
  *         headers:
+ *           ETag:
+ *             description: Validator for this version of the data and query; send it back as If-None-Match
+ *             schema:
+ *               type: string
+ *           Last-Modified:
+ *             description: AWS createDate of the data
+ *             schema:
+ *               type: string
  *           X-Data-Source:
  *             description: Source of the data
  *             schema:
@@ -50,13 +82,16 @@ let syncStarted = false;
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AWSRawData'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
  *       429:
  *         $ref: '#/components/responses/RateLimitExceeded'
  *       503:
  *         $ref: '#/components/responses/ServiceUnavailable'
  */
 export async function GET(request: NextRequest) {
-  return apiRateLimit(request, async () => {
   // Start background sync on first API call (server startup)
   if (!syncStarted) {
     console.log('[API] Starting background sync service...');
@@ -64,9 +99,25 @@ export async function GET(request: NextRequest) {
     syncStarted = true;
   }
 
+  // Serve a stored snapshot when a syncToken is requested, otherwise the cached data
+  const syncToken = new URL(request.url).searchParams.get('syncToken');
+  const loadVersion = () => syncToken ? getSnapshot(syncToken) : getCachedData();
+
+  // Pollers that already hold this version get an empty 304, before the rate limit is checked
+  return withNotModified(request, loadVersion, responseHeaders, (preloaded) => apiRateLimit(request, async () => {
   try {
-    // Try to get cached data first
-    let data = await getCachedData();
+    let data = preloaded || await loadVersion();
+
+    if (!data && syncToken) {
+      return NextResponse.json(
+        {
+          error: 'Version not found',
+          message: `No snapshot is stored for syncToken "${syncToken}". See /api/aws-ip-ranges/versions for available versions.`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
     
     // If no cached data and in serverless environment, try to fetch directly
     if (!data && process.env.VERCEL) {
@@ -81,7 +132,14 @@ export async function GET(request: NextRequest) {
         });
         
         if (response.ok) {
-          data = await response.json();
+          const fetched = await response.json();
+          if (fetched?.prefixes && fetched?.ipv6_prefixes) {
+            const { data: normalizedData, report } = validateAWSIPRanges(fetched);
+            if (report.issues.length > 0) {
+              console.warn(`[API] Fallback data has ${report.issues.length} problem prefixes (${report.dropped} dropped)`);
+            }
+            data = normalizedData;
+          }
           // Try to cache it for future requests (may fail silently)
           if (data) {
             const { setCachedData } = await import('@/lib/cache');
@@ -114,21 +172,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const validators = getCacheValidators(data, new URL(request.url).searchParams);
+
     // Return cached data with appropriate headers
     return NextResponse.json(data, {
       status: 200,
       headers: {
-        // Cache for 1 hour on CDN, allow stale while revalidating for 24 hours
-        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
-        // Add CORS headers for development
-        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        // Add custom headers for debugging
-        'X-Data-Source': 'AWS IP Ranges API (Cached)',
-        'X-Last-Updated': data.createDate,
-        'X-Sync-Token': data.syncToken,
-        'X-Cache-Status': 'HIT',
+        ...responseHeaders(data),
+        ...validatorHeaders(validators),
       },
     });
 
@@ -150,7 +201,7 @@ export async function GET(request: NextRequest) {
       }
     );
   }
-  });
+  }));
 }
 
 // Handle OPTIONS requests for CORS preflight
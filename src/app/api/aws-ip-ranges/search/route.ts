@@ -1,17 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedData } from '@/lib/cache';
-import { transformAWSIPRanges, filterPrefixes, sortPrefixes } from '@/lib/api';
-import { CombinedPrefix, SortField, SortDirection } from '@/types';
+import { getSnapshot } from '@/lib/snapshots';
+import { sortPrefixes, parseMatchMode, excludeServiceAddresses } from '@/lib/api';
+import { filterIndexedPrefixes, getPrefixIndex } from '@/lib/prefix-index';
+import { aggregatePrefixes } from '@/lib/cidr-set';
+import { AWSIPRanges, AggregationSummary, CombinedPrefix, MatchMode, SortField, SortDirection } from '@/types';
 import { searchRateLimit } from '@/lib/rate-limit';
+import { getCacheValidators, validatorHeaders, withNotModified } from '@/lib/conditional-get';
 
 interface SearchParams {
   page?: string;
   limit?: string;
   regions?: string;
   services?: string;
+  excludeServices?: string;
   searchTerm?: string;
+  matchMode?: string;
   includeIPv4?: string;
   includeIPv6?: string;
+  aggregate?: string;
   sortField?: SortField;
   sortDirection?: SortDirection;
 }
@@ -29,7 +36,9 @@ interface SearchResponse {
   filters: {
     regions: string[];
     services: string[];
+    excludeServices: string[];
     searchTerm: string;
+    matchMode: MatchMode;
     includeIPv4: boolean;
     includeIPv6: boolean;
   };
@@ -37,6 +46,19 @@ interface SearchResponse {
     field: SortField;
     direction: SortDirection;
   };
+  aggregation?: AggregationSummary;
+}
+
+function responseHeaders(awsData: AWSIPRanges): Record<string, string> {
+  return {
+    // Short cache since this is dynamic content
+    'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+    'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+    'Access-Control-Allow-Methods': 'GET',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'X-Data-Source': 'AWS IP Ranges API (Server-Side Filtered)',
+    'X-Sync-Token': awsData.syncToken,
+  };
 }
 
 /**
@@ -52,15 +74,29 @@ interface SearchResponse {
  *       - $ref: '#/components/parameters/Limit'
  *       - $ref: '#/components/parameters/Regions'
  *       - $ref: '#/components/parameters/Services'
+ *       - $ref: '#/components/parameters/ExcludeServices'
  *       - $ref: '#/components/parameters/SearchTerm'
+ *       - $ref: '#/components/parameters/MatchMode'
  *       - $ref: '#/components/parameters/IncludeIPv4'
  *       - $ref: '#/components/parameters/IncludeIPv6'
+ *       - $ref: '#/components/parameters/Aggregate'
  *       - $ref: '#/components/parameters/SortField'
  *       - $ref: '#/components/parameters/SortDirection'
+ *       - $ref: '#/components/parameters/SyncToken'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *       - $ref: '#/components/parameters/IfModifiedSince'
  *     responses:
  *       200:
  *         description: Filtered and paginated AWS IP ranges
  *         headers:
+ *           ETag:
+ *             description: Validator for this version of the data and query; send it back as If-None-Match
+ *             schema:
+ *               type: string
+ *           Last-Modified:
+ *             description: AWS createDate of the data
+ *             schema:
+ *               type: string
  *           X-RateLimit-Limit:
  *             description: Rate limit threshold (10 requests/minute)
  *             schema:
@@ -77,16 +113,36 @@ interface SearchResponse {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/SearchResponse'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       404:
+ *         $ref: '#/components/responses/VersionNotFound'
  *       429:
  *         $ref: '#/components/responses/RateLimitExceeded'
  *       503:
  *         $ref: '#/components/responses/ServiceUnavailable'
  */
 export async function GET(request: NextRequest) {
-  return searchRateLimit(request, async () => {
+  // Get cached AWS data, or a stored snapshot when a syncToken is requested
+  const syncToken = new URL(request.url).searchParams.get('syncToken');
+  const loadVersion = () => syncToken ? getSnapshot(syncToken) : getCachedData();
+
+  // Clients whose copy is current get a 304 before the rate limit is checked
+  return withNotModified(request, loadVersion, responseHeaders, (preloaded) => searchRateLimit(request, async () => {
   try {
-    // Get cached AWS data
-    const awsData = await getCachedData();
+    const { searchParams } = new URL(request.url);
+    const awsData = preloaded || await loadVersion();
+
+    if (!awsData && syncToken) {
+      return NextResponse.json(
+        {
+          error: 'Version not found',
+          message: `No snapshot is stored for syncToken "${syncToken}". See /api/aws-ip-ranges/versions for available versions.`,
+          timestamp: new Date().toISOString()
+        },
+        { status: 404 }
+      );
+    }
     
     if (!awsData) {
       return NextResponse.json(
@@ -99,37 +155,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const headers = responseHeaders(awsData);
+    const validators = getCacheValidators(awsData, searchParams);
+
     // Parse query parameters
-    const { searchParams } = new URL(request.url);
-    
     const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
     const limit = Math.min(500, Math.max(1, parseInt(searchParams.get('limit') || '50')));
     
     // Parse filter parameters
     const regions = searchParams.get('regions')?.split(',').filter(Boolean) || [];
     const services = searchParams.get('services')?.split(',').filter(Boolean) || [];
+    const excludeServices = searchParams.get('excludeServices')?.split(',').filter(Boolean) || [];
     const searchTerm = searchParams.get('searchTerm') || '';
+    const matchMode = parseMatchMode(searchParams.get('matchMode'));
     const includeIPv4 = searchParams.get('includeIPv4') !== 'false';
     const includeIPv6 = searchParams.get('includeIPv6') !== 'false';
+    const aggregate = searchParams.get('aggregate') === 'true';
     
     // Parse sorting parameters
     const sortField = (searchParams.get('sortField') as SortField) || 'prefix';
     const sortDirection = (searchParams.get('sortDirection') as SortDirection) || 'asc';
 
-    // Transform AWS data to combined format
-    const combinedPrefixes = transformAWSIPRanges(awsData);
+    // Reuse the shared index (built once per syncToken) for its prefixes and trie
+    const index = getPrefixIndex(awsData);
+    const combinedPrefixes = index.prefixes;
 
     // Apply filtering
-    const filteredPrefixes = filterPrefixes(combinedPrefixes, {
+    const filteredPrefixes = filterIndexedPrefixes(index, {
       regions,
       services,
       searchTerm,
+      matchMode,
       includeIPv4,
       includeIPv6,
     });
 
+    // Subtract excluded services' address space, or collapse nested and adjacent
+    // blocks into the smallest equivalent set of CIDRs
+    const setMode = aggregate || excludeServices.length > 0;
+    const resultPrefixes = excludeServices.length > 0
+      ? excludeServiceAddresses(filteredPrefixes, combinedPrefixes, excludeServices)
+      : aggregate ? aggregatePrefixes(filteredPrefixes) : filteredPrefixes;
+
     // Apply sorting
-    const sortedPrefixes = sortPrefixes(filteredPrefixes, sortField, sortDirection);
+    const sortedPrefixes = sortPrefixes(resultPrefixes, sortField, sortDirection);
 
     // Calculate pagination
     const total = sortedPrefixes.length;
@@ -154,7 +223,9 @@ export async function GET(request: NextRequest) {
       filters: {
         regions,
         services,
+        excludeServices,
         searchTerm,
+        matchMode,
         includeIPv4,
         includeIPv6,
       },
@@ -162,17 +233,19 @@ export async function GET(request: NextRequest) {
         field: sortField,
         direction: sortDirection,
       },
+      ...(setMode && {
+        aggregation: {
+          inputCount: filteredPrefixes.length,
+          outputCount: resultPrefixes.length,
+        },
+      }),
     };
 
     return NextResponse.json(response, {
       status: 200,
       headers: {
-        // Short cache since this is dynamic content
-        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
-        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        'X-Data-Source': 'AWS IP Ranges API (Server-Side Filtered)',
+        ...headers,
+        ...validatorHeaders(validators),
       },
     });
 
@@ -188,7 +261,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-  });
+  }));
 }
 
 // Handle OPTIONS requests for CORS preflight
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { isSNSURL, parseSNSMessage, verifySNSMessage } from '@/lib/sns';
+import { triggerSync } from '@/lib/background-sync';
+
+function snsError(status: number, error: string, message: string) {
+  return NextResponse.json(
+    {
+      error,
+      message,
+      timestamp: new Date().toISOString()
+    },
+    { status }
+  );
+}
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/sns:
+ *   post:
+ *     summary: Receive AmazonIpSpaceChanged notifications
+ *     description: |
+ *       HTTPS endpoint for the AWS `AmazonIpSpaceChanged` SNS topic. Subscription confirmations are confirmed automatically, and each notification starts a sync straight away instead of waiting for the next scheduled check. Messages must carry a valid SNS signature for the configured topic.
+ *     tags:
+ *       - AWS IP Ranges
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/plain:
+ *           schema:
+ *             type: string
+ *             description: SNS message JSON (SNS posts it as text/plain)
+ *     responses:
+ *       200:
+ *         description: Message accepted
+ *       400:
+ *         description: Body is not an SNS message
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signature or topic verification failed, or the message is more than an hour old
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const message = parseSNSMessage(await request.text());
+
+    if (!message) {
+      return snsError(400, 'Invalid SNS message', 'Request body is not an SNS message');
+    }
+
+    const failure = await verifySNSMessage(message, { topicArn: process.env.SNS_TOPIC_ARN });
+    if (failure) {
+      console.warn(`[SNS] Rejected ${message.Type} ${message.MessageId}: ${failure}`);
+      return snsError(403, 'SNS verification failed', failure);
+    }
+
+    switch (message.Type) {
+      case 'SubscriptionConfirmation': {
+        if (!isSNSURL(message.SubscribeURL)) {
+          return snsError(400, 'Invalid SNS message', 'SubscribeURL is not an SNS endpoint');
+        }
+        const response = await fetch(message.SubscribeURL as string, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+          throw new Error(`Subscription confirmation failed with status: ${response.status}`);
+        }
+        console.log(`[SNS] Confirmed subscription to ${message.TopicArn}`);
+        break;
+      }
+
+      case 'Notification':
+        console.log(`[SNS] ${message.TopicArn} notification ${message.MessageId}: ${message.Message}`);
+        // Reply right away; SNS retries deliveries that take too long
+        after(async () => {
+          const result = await triggerSync();
+          console.log(`[SNS] Sync after notification ${message.MessageId}: ${result.message}`);
+        });
+        break;
+
+      case 'UnsubscribeConfirmation':
+        console.log(`[SNS] Unsubscribed from ${message.TopicArn}`);
+        break;
+    }
+
+    return new NextResponse(null, { status: 200 });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges SNS API:', error);
+
+    return snsError(500, 'Failed to process SNS message', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncStatus } from '@/lib/background-sync';
+import { SyncStatusResponse } from '@/types';
+import { searchRateLimit } from '@/lib/rate-limit';
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/status:
+ *   get:
+ *     summary: Get the background sync status
+ *     description: Reports whether the background sync is running and what the last validation of the AWS feed found - how many prefixes were normalized or dropped, and why.
+ *     tags:
+ *       - AWS IP Ranges
+ *     responses:
+ *       200:
+ *         description: Sync status
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (10 requests/minute)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining requests in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SyncStatusResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ */
+export async function GET(request: NextRequest) {
+  return searchRateLimit(request, async () => {
+  const response: SyncStatusResponse = {
+    ...getSyncStatus(),
+    timestamp: new Date().toISOString(),
+  };
+
+  return NextResponse.json(response, {
+    status: 200,
+    headers: {
+      // Status is per server instance and changes with every sync
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
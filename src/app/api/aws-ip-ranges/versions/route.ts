@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedData } from '@/lib/cache';
+import { getSnapshotVersions, MAX_SNAPSHOTS } from '@/lib/snapshots';
+import { VersionsResponse } from '@/types';
+import { searchRateLimit } from '@/lib/rate-limit';
+
+/**
+ * @swagger
+ * /api/aws-ip-ranges/versions:
+ *   get:
+ *     summary: List stored versions of the AWS IP ranges
+ *     description: Returns every stored snapshot of ip-ranges.json, newest first. Pass a version's syncToken to the search, export, lookup or classify endpoints to query that historical data.
+ *     tags:
+ *       - AWS IP Ranges
+ *     responses:
+ *       200:
+ *         description: Stored versions
+ *         headers:
+ *           X-RateLimit-Limit:
+ *             description: Rate limit threshold (10 requests/minute)
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Remaining:
+ *             description: Remaining requests in current window
+ *             schema:
+ *               type: integer
+ *           X-RateLimit-Reset:
+ *             description: Unix timestamp when rate limit resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VersionsResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ */
+export async function GET(request: NextRequest) {
+  return searchRateLimit(request, async () => {
+  try {
+    const [versions, current] = await Promise.all([
+      getSnapshotVersions(),
+      getCachedData(),
+    ]);
+
+    const response: VersionsResponse = {
+      versions,
+      current: current?.syncToken || null,
+      retention: MAX_SNAPSHOTS,
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'X-Data-Source': 'AWS IP Ranges API (Snapshot History)',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in AWS IP ranges versions API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list versions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteWebhook, getWebhook, isWebhookOwner, parseBearerToken, withoutSecret } from '@/lib/webhooks';
+import { apiRateLimit } from '@/lib/rate-limit';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function webhookNotFound(id: string) {
+  return NextResponse.json(
+    {
+      error: 'Webhook not found',
+      message: `No webhook is registered with id "${id}"`,
+      timestamp: new Date().toISOString()
+    },
+    { status: 404 }
+  );
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      error: 'Unauthorized',
+      message: 'Send the token returned when the webhook was created as a bearer token',
+      timestamp: new Date().toISOString()
+    },
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+  );
+}
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook and its delivery log
+ *     description: Returns the webhook's URL and filters with its last 50 deliveries, including every attempt's status code or error.
+ *     tags:
+ *       - Webhooks
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The webhook
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         description: Missing or invalid owner token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ *   delete:
+ *     summary: Remove a webhook
+ *     tags:
+ *       - Webhooks
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Webhook removed
+ *       401:
+ *         description: Missing or invalid owner token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitExceeded'
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return apiRateLimit(request, async () => {
+  try {
+    const { id } = await params;
+    const webhook = await getWebhook(id);
+
+    if (!webhook) {
+      return webhookNotFound(id);
+    }
+    if (!isWebhookOwner(webhook, parseBearerToken(request.headers.get('authorization')))) {
+      return unauthorized();
+    }
+
+    return NextResponse.json(withoutSecret(webhook), {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET, DELETE',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in webhooks API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load webhook',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  return apiRateLimit(request, async () => {
+  try {
+    const { id } = await params;
+    const webhook = await getWebhook(id);
+
+    if (!webhook) {
+      return webhookNotFound(id);
+    }
+    if (!isWebhookOwner(webhook, parseBearerToken(request.headers.get('authorization')))) {
+      return unauthorized();
+    }
+
+    if (!(await deleteWebhook(id))) {
+      return webhookNotFound(id);
+    }
+
+    return new NextResponse(null, {
+      status: 204,
+      headers: {
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'GET, DELETE',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in webhooks API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to remove webhook',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
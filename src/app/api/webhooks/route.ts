@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canRegisterWebhooks, createWebhook, parseBearerToken, WebhookLimitError } from '@/lib/webhooks';
+import { validateWebhookURL } from '@/lib/webhook-delivery';
+import { WebhookFilters } from '@/types';
+import { apiRateLimit, getClientId } from '@/lib/rate-limit';
+
+interface CreateWebhookBody {
+  url: string;
+  filters: WebhookFilters;
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new Error(`"${field}" must be an array of strings`);
+  }
+  return value.filter(Boolean);
+}
+
+/**
+ * Reads and validates the webhook URL and filters from the request body
+ */
+async function parseBody(request: NextRequest): Promise<CreateWebhookBody> {
+  const body = await request.json().catch(() => {
+    throw new Error('Body must be a JSON object');
+  });
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Body must be a JSON object');
+  }
+
+  if (typeof body.url !== 'string') {
+    throw new Error('"url" must be an absolute http(s) URL');
+  }
+  const url = await validateWebhookURL(body.url);
+
+  const filters: WebhookFilters = {
+    regions: toStringList(body.regions, 'regions'),
+    services: toStringList(body.services, 'services'),
+    includeIPv4: body.includeIPv4 !== false,
+    includeIPv6: body.includeIPv6 !== false,
+  };
+  if (!filters.includeIPv4 && !filters.includeIPv6) {
+    throw new Error('At least one of "includeIPv4" and "includeIPv6" must be true');
+  }
+
+  return { url: url.toString(), filters };
+}
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Register a webhook
+ *     description: |
+ *       Registers a URL that receives a JSON POST with the diff whenever the background sync stores a new AWS syncToken. Only changes matching the filters are sent, and publishes that don't touch them are skipped.
+ *
+ *       Each request carries an `X-IPMapAWS-Timestamp` header (Unix seconds) and an `X-IPMapAWS-Signature` header: `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<raw body>`, keyed with the webhook secret. Reject timestamps more than 5 minutes old. Non-2xx responses and network errors are retried up to 3 times with increasing delays.
+ *
+ *       Registration requires the `WEBHOOK_REGISTRATION_TOKEN` configured on the server as a bearer token. URLs must resolve to public addresses, and each client can register at most 5 webhooks. The response holds an owner token for reading and removing the webhook.
+ *     tags:
+ *       - Webhooks
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - type: object
+ *                 required: [url]
+ *                 properties:
+ *                   url:
+ *                     type: string
+ *                     format: uri
+ *                     example: 'https://firewall.example.com/aws-ip-ranges'
+ *               - $ref: '#/components/schemas/WebhookFilters'
+ *     responses:
+ *       201:
+ *         description: Webhook registered. The secret is only returned here.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Webhook'
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       description: Key for verifying X-IPMapAWS-Signature
+ *                     token:
+ *                       type: string
+ *                       description: Bearer token for reading and removing this webhook
+ *       400:
+ *         description: Invalid URL or filters, or a URL pointing at a loopback, private or link-local address
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Missing or invalid registration token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests, or the client or global webhook limit is reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(request: NextRequest) {
+  return apiRateLimit(request, async () => {
+  if (!canRegisterWebhooks(parseBearerToken(request.headers.get('authorization')))) {
+    return NextResponse.json(
+      {
+        error: 'Unauthorized',
+        message: 'Registering a webhook requires a valid registration token',
+        timestamp: new Date().toISOString()
+      },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  let body: CreateWebhookBody;
+  try {
+    body = await parseBody(request);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request body',
+        message: error instanceof Error ? error.message : 'Unable to parse request body',
+        timestamp: new Date().toISOString()
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const webhook = await createWebhook(body.url, body.filters, getClientId(request));
+
+    return NextResponse.json(webhook, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store',
+        'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof WebhookLimitError) {
+      return NextResponse.json(
+        {
+          error: 'Webhook limit reached',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        { status: 429 }
+      );
+    }
+
+    console.error('Error in webhooks API:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to register webhook',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+  });
+}
+
+// Handle OPTIONS requests for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NODE_ENV === 'development' ? '*' : 'https://ipmapaws.vercel.app',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
\ No newline at end of file
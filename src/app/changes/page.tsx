@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+import ChangesPage from '@/components/pages/ChangesPage';
+
+export const metadata: Metadata = {
+  title: 'AWS IP Range Changes',
+  description: 'History of every AWS ip-ranges.json publish with the prefixes added, removed and changed, filterable by region and service.',
+  alternates: {
+    canonical: '/changes',
+    types: {
+      'application/atom+xml': '/feeds/changes.atom',
+      'application/rss+xml': '/feeds/changes.rss',
+    },
+  },
+};
+
+export default function Page() {
+  return <ChangesPage />;
+}
\ No newline at end of file
@@ -26,6 +26,9 @@ const API_ENDPOINTS: ApiEndpoint[] = [
     path: '/api/aws-ip-ranges',
     summary: 'Get all AWS IP ranges',
     description: 'Returns the complete AWS IP ranges dataset in the original format from Amazon',
+    parameters: [
+      { name: 'syncToken', description: 'Return a stored historical version (see /versions)', required: false, type: 'string' },
+    ],
     rateLimit: '50 requests/hour',
   },
   {
@@ -38,11 +41,15 @@ const API_ENDPOINTS: ApiEndpoint[] = [
       { name: 'limit', description: 'Number of items per page (max 500)', required: false, type: 'integer', example: '50' },
       { name: 'regions', description: 'Comma-separated list of AWS regions', required: false, type: 'string', example: 'us-east-1,us-west-2' },
       { name: 'services', description: 'Comma-separated list of AWS services', required: false, type: 'string', example: 'EC2,S3' },
+      { name: 'excludeServices', description: 'Comma-separated AWS services whose addresses are subtracted from the results', required: false, type: 'string', example: 'EC2' },
       { name: 'searchTerm', description: 'Search term to filter IP ranges', required: false, type: 'string', example: 'ec2' },
+      { name: 'matchMode', description: 'How an IP/CIDR search term is matched', required: false, type: 'string', example: 'overlaps', enum: ['overlaps', 'contains', 'within', 'text'] },
       { name: 'includeIPv4', description: 'Include IPv4 addresses in results', required: false, type: 'boolean', example: 'true' },
       { name: 'includeIPv6', description: 'Include IPv6 addresses in results', required: false, type: 'boolean', example: 'true' },
+      { name: 'aggregate', description: 'Merge nested and adjacent prefixes into the fewest CIDRs', required: false, type: 'boolean', example: 'false' },
       { name: 'sortField', description: 'Field to sort by', required: false, type: 'string', example: 'prefix', enum: ['prefix', 'region', 'service', 'network_border_group'] },
       { name: 'sortDirection', description: 'Sort direction (asc/desc)', required: false, type: 'string', example: 'asc', enum: ['asc', 'desc'] },
+      { name: 'syncToken', description: 'Query a stored historical version (see /versions)', required: false, type: 'string' },
     ],
     rateLimit: '10 requests/minute',
   },
@@ -54,14 +61,90 @@ const API_ENDPOINTS: ApiEndpoint[] = [
     parameters: [
       { name: 'regions', description: 'Comma-separated list of AWS regions', required: false, type: 'string', example: 'us-east-1,us-west-2' },
       { name: 'services', description: 'Comma-separated list of AWS services', required: false, type: 'string', example: 'EC2,S3' },
+      { name: 'excludeServices', description: 'Comma-separated AWS services whose addresses are subtracted from the results', required: false, type: 'string', example: 'EC2' },
       { name: 'searchTerm', description: 'Search term to filter IP ranges', required: false, type: 'string', example: 'ec2' },
+      { name: 'matchMode', description: 'How an IP/CIDR search term is matched', required: false, type: 'string', example: 'overlaps', enum: ['overlaps', 'contains', 'within', 'text'] },
       { name: 'includeIPv4', description: 'Include IPv4 addresses in results', required: false, type: 'boolean', example: 'true' },
       { name: 'includeIPv6', description: 'Include IPv6 addresses in results', required: false, type: 'boolean', example: 'true' },
+      { name: 'aggregate', description: 'Merge nested and adjacent prefixes into the fewest CIDRs', required: false, type: 'boolean', example: 'false' },
       { name: 'sortField', description: 'Field to sort by', required: false, type: 'string', example: 'prefix', enum: ['prefix', 'region', 'service', 'network_border_group'] },
       { name: 'sortDirection', description: 'Sort direction (asc/desc)', required: false, type: 'string', example: 'asc', enum: ['asc', 'desc'] },
+      { name: 'syncToken', description: 'Query a stored historical version (see /versions)', required: false, type: 'string' },
+      { name: 'format', description: 'Response format: JSON, a plain CIDR list, CSV, NDJSON or firewall configuration', required: false, type: 'string', example: 'json', enum: ['json', 'txt', 'csv', 'ndjson', 'ipset', 'iptables', 'nftables', 'prefix-list', 'security-group', 'terraform', 'cloudformation', 'cloudformation-json', 'cdk-ts', 'k8s', 'cilium', 'calico', 'nginx', 'nginx-geo', 'haproxy', 'apache', 'caddy', 'cisco', 'juniper', 'mikrotik', 'pf'] },
+      { name: 'comments', description: 'Start txt output with # lines describing the export', required: false, type: 'boolean', example: 'false' },
+      { name: 'setName', description: 'ipset/iptables/nftables: base set name, suffixed per address family', required: false, type: 'string', example: 'aws-ip-ranges' },
+      { name: 'table', description: 'nftables: inet table holding the sets', required: false, type: 'string', example: 'aws_ip_ranges' },
+      { name: 'rule', description: 'nftables: add an example chain using the sets', required: false, type: 'string', example: 'none', enum: ['none', 'accept', 'drop'] },
+      { name: 'chain', description: 'iptables: chain to append the rule to', required: false, type: 'string', example: 'INPUT' },
+      { name: 'target', description: 'iptables: action for matching packets', required: false, type: 'string', example: 'ACCEPT', enum: ['ACCEPT', 'DROP'] },
+      { name: 'name', description: 'Infrastructure, Kubernetes, proxy and network formats: base name of resources and identifiers', required: false, type: 'string', example: 'aws-ip-ranges' },
+      { name: 'action', description: 'prefix-list: create-managed-prefix-list or modify-managed-prefix-list input', required: false, type: 'string', example: 'create', enum: ['create', 'modify'] },
+      { name: 'maxEntries', description: 'prefix-list/terraform: entries per list (up to 100 / 1000; terraform and cloudformation default to 60 with security group rules)', required: false, type: 'number', example: '100' },
+      { name: 'protocol', description: 'security-group/terraform/cloudformation: IP protocol of the rules', required: false, type: 'string', example: 'tcp', enum: ['tcp', 'udp', 'icmp', '-1'] },
+      { name: 'port', description: 'security-group/terraform/cloudformation: port or port range', required: false, type: 'string', example: '443' },
+      { name: 'rulesPerGroup', description: 'security-group: rules per family per group', required: false, type: 'number', example: '60' },
+      { name: 'resources', description: 'terraform/cloudformation: resources to emit', required: false, type: 'string', example: 'all', enum: ['all', 'prefix-list', 'none'] },
+      { name: 'securityGroupId', description: 'terraform/cloudformation: security group for the rules (otherwise a variable or parameter)', required: false, type: 'string' },
+      { name: 'namespace', description: 'k8s/cilium: namespace of the policy', required: false, type: 'string', example: 'default' },
+      { name: 'labels', description: 'k8s/cilium/calico: metadata labels (key=value,...)', required: false, type: 'string', example: 'team=platform' },
+      { name: 'podSelector', description: 'k8s/cilium: labels of the pods the policy applies to', required: false, type: 'string', example: 'app=uploader' },
+      { name: 'dns', description: 'k8s/cilium: allow DNS to kube-dns on port 53 (default true)', required: false, type: 'boolean', example: 'false' },
+      { name: 'mode', description: 'nginx/apache: allow only matching addresses, or deny them', required: false, type: 'string', example: 'allow', enum: ['allow', 'deny'] },
+      { name: 'platform', description: 'cisco: IOS or NX-OS syntax', required: false, type: 'string', example: 'ios', enum: ['ios', 'nxos'] },
+      { name: 'descriptions', description: 'prefix-list/security-group: describe entries with service and region', required: false, type: 'boolean', example: 'false' },
+      { name: 'direction', description: 'iptables/nftables: match source or destination addresses', required: false, type: 'string', example: 'src', enum: ['src', 'dst'] },
+      { name: 'family', description: 'iptables: IPv4 (iptables) or IPv6 (ip6tables) rules', required: false, type: 'string', example: 'inet', enum: ['inet', 'inet6'] },
     ],
     rateLimit: '5 requests/10 minutes',
   },
+  {
+    method: 'GET',
+    path: '/api/aws-ip-ranges/lookup',
+    summary: 'Look up an IP address',
+    description: 'Returns every AWS IP prefix that contains the given IPv4 or IPv6 address, most specific first',
+    parameters: [
+      { name: 'ip', description: 'IPv4 or IPv6 address to look up', required: true, type: 'string', example: '52.95.110.1' },
+      { name: 'syncToken', description: 'Query a stored historical version (see /versions)', required: false, type: 'string' },
+    ],
+    rateLimit: '10 requests/minute',
+  },
+  {
+    method: 'GET',
+    path: '/api/aws-ip-ranges/diff',
+    summary: 'Compare two versions',
+    description: 'Returns prefixes added, removed or changed between two stored versions. Defaults to the previous version compared with the current data',
+    parameters: [
+      { name: 'from', description: 'syncToken of the older version', required: false, type: 'string' },
+      { name: 'to', description: 'syncToken of the newer version', required: false, type: 'string' },
+    ],
+    rateLimit: '10 requests/minute',
+  },
+  {
+    method: 'GET',
+    path: '/api/aws-ip-ranges/changes',
+    summary: 'Change history',
+    description: 'Lists each AWS publish detected by the background sync with the prefixes it added, removed and changed',
+    parameters: [
+      { name: 'regions', description: 'Comma-separated list of AWS regions', required: false, type: 'string', example: 'us-east-1,us-west-2' },
+      { name: 'services', description: 'Comma-separated list of AWS services', required: false, type: 'string', example: 'EC2,S3' },
+      { name: 'limit', description: 'Maximum number of publishes (max 100)', required: false, type: 'integer', example: '20' },
+    ],
+    rateLimit: '10 requests/minute',
+  },
+  {
+    method: 'GET',
+    path: '/api/aws-ip-ranges/versions',
+    summary: 'List stored versions',
+    description: 'Returns every stored snapshot of the AWS IP ranges, newest first. Use a syncToken with the other endpoints to query historical data',
+    rateLimit: '10 requests/minute',
+  },
+  {
+    method: 'GET',
+    path: '/api/aws-ip-ranges/status',
+    summary: 'Get sync status',
+    description: 'Reports the background sync state and the last validation of the AWS feed, including any prefixes that were normalized or dropped',
+    rateLimit: '10 requests/minute',
+  },
 ];
 
 interface ApiResult {
@@ -95,6 +178,26 @@ const CLIENT_RATE_LIMITS: Record<string, { cooldown: number; message: string }>
     cooldown: 10000, // 10 seconds between requests
     message: 'Please wait 10 seconds between export requests (Only Applicable to UI)'
   },
+  '/api/aws-ip-ranges/lookup': { 
+    cooldown: 10000, // 10 seconds between requests
+    message: 'Please wait 10 seconds between lookup requests (Only Applicable to UI)'
+  },
+  '/api/aws-ip-ranges/diff': { 
+    cooldown: 10000, // 10 seconds between requests
+    message: 'Please wait 10 seconds between diff requests (Only Applicable to UI)'
+  },
+  '/api/aws-ip-ranges/changes': { 
+    cooldown: 10000, // 10 seconds between requests
+    message: 'Please wait 10 seconds between change history requests (Only Applicable to UI)'
+  },
+  '/api/aws-ip-ranges/versions': { 
+    cooldown: 10000, // 10 seconds between requests
+    message: 'Please wait 10 seconds between version requests (Only Applicable to UI)'
+  },
+  '/api/aws-ip-ranges/status': { 
+    cooldown: 10000, // 10 seconds between requests
+    message: 'Please wait 10 seconds between status requests (Only Applicable to UI)'
+  },
 };
 
 export default function ApiDocsPage() {
@@ -257,7 +360,9 @@ export default function ApiDocsPage() {
 
     try {
       const response = await fetch(url);
-      const data = await response.json();
+      // Text export formats are shown as returned
+      const isJSON = (response.headers.get('content-type') || '').includes('application/json');
+      const data = isJSON ? await response.json() : await response.text();
       
       setApiResults(prev => ({
         ...prev,
@@ -608,7 +713,7 @@ export default function ApiDocsPage() {
                         {result.error ? (
                           <div className="text-red-400">Error: {result.error}</div>
                         ) : (
-                          <pre>{JSON.stringify(result.response, null, 2)}</pre>
+                          <pre>{typeof result.response === 'string' ? result.response : JSON.stringify(result.response, null, 2)}</pre>
                         )}
                       </div>
                     </div>
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChangeLog } from '@/lib/change-log';
+import { buildAtomFeed, selectFeedEntries } from '@/lib/feeds';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://ipmapaws.vercel.app';
+
+/**
+ * @swagger
+ * /feeds/changes.atom:
+ *   get:
+ *     summary: Atom feed of AWS IP range changes
+ *     description: One entry per AWS publish detected by the background sync, summarizing the prefixes added, removed and changed. Use regions and services to subscribe to only the changes that affect you.
+ *     tags:
+ *       - Feeds
+ *     parameters:
+ *       - $ref: '#/components/parameters/Regions'
+ *       - $ref: '#/components/parameters/Services'
+ *     responses:
+ *       200:
+ *         description: Atom feed
+ *         content:
+ *           application/atom+xml:
+ *             schema:
+ *               type: string
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = {
+      regions: searchParams.get('regions')?.split(',').filter(Boolean) || [],
+      services: searchParams.get('services')?.split(',').filter(Boolean) || [],
+    };
+
+    const entries = selectFeedEntries(await getChangeLog(), filters);
+    const feed = buildAtomFeed(entries, {
+      baseUrl: BASE_URL,
+      path: '/feeds/changes.atom',
+      filters,
+    });
+
+    return new NextResponse(feed, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        // Feed readers poll often; AWS publishes a few times a week
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=3600',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error generating Atom changes feed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to generate feed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
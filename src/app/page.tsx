@@ -13,7 +13,9 @@ import { copyToClipboard, debounce } from '@/lib/utils';
 const defaultFilters: FilterOptions = {
   regions: [],
   services: [],
+  excludeServices: [],
   searchTerm: '',
+  matchMode: 'overlaps',
   includeIPv4: true,
   includeIPv6: true,
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface DataStatusProps {
@@ -89,6 +89,14 @@ export function DataStatus({ lastUpdated, className }: DataStatusProps) {
           </span>
         </div>
       </div>
+
+      <a
+        href="/changes"
+        className="flex items-center space-x-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <History className="h-4 w-4" />
+        <span>What changed?</span>
+      </a>
     </div>
   );
 } 
\ No newline at end of file
@@ -1,94 +1,90 @@
-import React, { useState } from 'react';
-import { Download, FileText, Loader2 } from 'lucide-react';
-import { Button } from '@/components/ui/button';
-import { ExportButtonProps, ExportResponse, CombinedPrefix } from '@/types';
-import { exportToCSV, formatNumber } from '@/lib/utils';
+import React from 'react';
+import { Download, FileText } from 'lucide-react';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { ExportButtonProps, CombinedPrefix } from '@/types';
+import { cn, formatNumber } from '@/lib/utils';
 
-export function ExportButton({
-  filters,
-  sortField,
-  sortDirection,
-  filename = 'aws-ip-ranges.csv',
-  disabled = false,
-  className,
-}: ExportButtonProps) {
-  const [isExporting, setIsExporting] = useState(false);
-  const [totalRecords, setTotalRecords] = useState<number | null>(null);
-
-  const handleExport = async () => {
-    try {
-      setIsExporting(true);
-
-      // Build query parameters for export endpoint
-      const params = new URLSearchParams();
-      
-      if (filters.regions.length > 0) {
-        params.set('regions', filters.regions.join(','));
-      }
-      if (filters.services.length > 0) {
-        params.set('services', filters.services.join(','));
-      }
-      if (filters.searchTerm) {
-        params.set('searchTerm', filters.searchTerm);
-      }
-      params.set('includeIPv4', filters.includeIPv4.toString());
-      params.set('includeIPv6', filters.includeIPv6.toString());
-      params.set('sortField', sortField);
-      params.set('sortDirection', sortDirection);
+const FORMAT_LABELS: Record<NonNullable<ExportButtonProps['format']>, string> = {
+  csv: 'Export to CSV',
+  ndjson: 'NDJSON',
+  txt: 'CIDR list',
+  ipset: 'ipset',
+  iptables: 'iptables rules',
+  nftables: 'nftables sets',
+  'prefix-list': 'Managed prefix lists',
+  'security-group': 'Security group rules',
+  terraform: 'Terraform',
+  cloudformation: 'CloudFormation',
+  'cloudformation-json': 'CloudFormation (JSON)',
+  'cdk-ts': 'CDK (TypeScript)',
+  k8s: 'NetworkPolicy',
+  cilium: 'CiliumNetworkPolicy',
+  calico: 'Calico GlobalNetworkSet',
+  nginx: 'nginx allow list',
+  'nginx-geo': 'nginx geo block',
+  haproxy: 'HAProxy ACL',
+  apache: 'Apache Require ip',
+  caddy: 'Caddy matcher',
+  cisco: 'Cisco',
+  juniper: 'Juniper',
+  mikrotik: 'MikroTik',
+  pf: 'pf table',
+};
 
-      // Fetch all matching data from export endpoint
-      const response = await fetch(`/api/aws-ip-ranges/export?${params}`);
-      
-      if (!response.ok) {
-        throw new Error(`Export failed: ${response.status}`);
-      }
+/**
+ * Builds the export endpoint URL for the current filters and sorting
+ */
+function buildExportURL({ filters, sortField, sortDirection, format = 'csv' }: ExportButtonProps): string {
+  const params = new URLSearchParams();
+  
+  if (filters.regions.length > 0) {
+    params.set('regions', filters.regions.join(','));
+  }
+  if (filters.services.length > 0) {
+    params.set('services', filters.services.join(','));
+  }
+  if (filters.excludeServices.length > 0) {
+    params.set('excludeServices', filters.excludeServices.join(','));
+  }
+  if (filters.searchTerm) {
+    params.set('searchTerm', filters.searchTerm);
+    params.set('matchMode', filters.matchMode);
+  }
+  params.set('includeIPv4', filters.includeIPv4.toString());
+  params.set('includeIPv6', filters.includeIPv6.toString());
+  params.set('sortField', sortField);
+  params.set('sortDirection', sortDirection);
+  params.set('format', format);
 
-      const exportData: ExportResponse = await response.json();
-      
-      if (exportData.data.length === 0) {
-        alert('No data to export with current filters');
-        return;
-      }
+  return `/api/aws-ip-ranges/export?${params}`;
+}
 
-      // Update total records for display
-      setTotalRecords(exportData.total);
+export function ExportButton(props: ExportButtonProps) {
+  const { format = 'csv', disabled = false, className } = props;
+  const label = FORMAT_LABELS[format];
 
-      // Export to CSV
-      exportToCSV(exportData.data, filename);
-    } catch (error) {
-      console.error('Export failed:', error);
-      alert('Failed to export CSV file. Please try again.');
-    } finally {
-      setIsExporting(false);
-    }
-  };
+  if (disabled) {
+    return (
+      <div className={className}>
+        <Button disabled variant="outline" className="flex items-center space-x-2">
+          <Download className="h-4 w-4" />
+          <span>{label}</span>
+        </Button>
+      </div>
+    );
+  }
 
+  // The server streams the file with its own filename; the browser just follows the link
   return (
     <div className={className}>
-      <Button
-        onClick={handleExport}
-        disabled={disabled || isExporting}
-        variant="outline"
-        className="flex items-center space-x-2"
+      <a
+        href={buildExportURL(props)}
+        download
+        className={cn(buttonVariants({ variant: 'outline' }), 'flex items-center space-x-2')}
       >
-        {isExporting ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <Download className="h-4 w-4" />
-        )}
-        <span>{isExporting ? 'Exporting...' : 'Export to CSV'}</span>
-        {totalRecords !== null && (
-          <span className="text-muted-foreground text-sm">
-            ({formatNumber(totalRecords)} records)
-          </span>
-        )}
-      </Button>
-      
-      {isExporting && (
-        <p className="text-xs text-muted-foreground mt-2">
-          Fetching all matching records for export...
-        </p>
-      )}
+        <Download className="h-4 w-4" />
+        <span>{label}</span>
+      </a>
     </div>
   );
 }
@@ -165,12 +161,17 @@ export function ExportSummary({
               Export will include <strong>all {formatNumber(totalCount)} matching records</strong>, not just the current page.
             </p>
           </div>
-          <ExportButton 
-            filters={filters}
-            sortField={sortField}
-            sortDirection={sortDirection}
-            filename={`aws-ip-ranges-${new Date().toISOString().split('T')[0]}.csv`}
-          />
+          <div className="flex flex-wrap gap-2">
+            {(['csv', 'ndjson', 'txt', 'security-group', 'prefix-list'] as const).map((format) => (
+              <ExportButton
+                key={format}
+                filters={filters}
+                sortField={sortField}
+                sortDirection={sortDirection}
+                format={format}
+              />
+            ))}
+          </div>
         </div>
       </div>
     </div>
@@ -3,9 +3,16 @@ import { Search, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select';
-import { FilterOptions } from '@/types';
+import { FilterOptions, MatchMode } from '@/types';
 import { cn } from '@/lib/utils';
 
+const MATCH_MODE_OPTIONS: { value: MatchMode; label: string }[] = [
+  { value: 'overlaps', label: 'Overlaps IP/CIDR' },
+  { value: 'contains', label: 'Contains IP/CIDR' },
+  { value: 'within', label: 'Within CIDR' },
+  { value: 'text', label: 'Text match' },
+];
+
 interface FilterControlsProps {
   regions: string[];
   services: string[];
@@ -41,6 +48,14 @@ export function FilterControls({
     });
   };
 
+  const handleServiceSelectionChange = (selectedServices: string[], excludedServices: string[]) => {
+    onFilterChange({
+      ...filters,
+      services: selectedServices,
+      excludeServices: excludedServices,
+    });
+  };
+
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
     if (onSearchChange) {
@@ -55,6 +70,13 @@ export function FilterControls({
     }
   };
 
+  const handleMatchModeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onFilterChange({
+      ...filters,
+      matchMode: event.target.value as MatchMode,
+    });
+  };
+
   const handleIPv4Toggle = (event: React.ChangeEvent<HTMLInputElement>) => {
     onFilterChange({
       ...filters,
@@ -73,7 +95,9 @@ export function FilterControls({
   const hasActiveFilters = 
     filters.regions.length > 0 ||
     filters.services.length > 0 ||
+    filters.excludeServices.length > 0 ||
     currentSearchTerm.trim() !== '' ||
+    filters.matchMode !== 'overlaps' ||
     !filters.includeIPv4 ||
     !filters.includeIPv6;
 
@@ -105,12 +129,25 @@ export function FilterControls({
             <Input
               id="search"
               type="text"
-              placeholder="Search prefixes, regions, services..."
+              placeholder="Search IPs, CIDRs, regions, services..."
               value={searchInput !== undefined ? searchInput : filters.searchTerm}
               onChange={handleSearchChange}
               className="pl-10"
             />
           </div>
+          <select
+            id="match-mode"
+            aria-label="IP/CIDR match mode"
+            value={filters.matchMode}
+            onChange={handleMatchModeChange}
+            className="flex h-9 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            {MATCH_MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* Region Filter */}
@@ -136,6 +173,8 @@ export function FilterControls({
             options={services}
             selected={filters.services}
             onChange={handleServiceChange}
+            excluded={filters.excludeServices}
+            onSelectionChange={handleServiceSelectionChange}
             placeholder="Select services..."
             searchPlaceholder="Search services..."
           />
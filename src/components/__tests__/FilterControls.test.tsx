@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { FilterControls } from '../FilterControls';
+import { FilterOptions } from '@/types';
+
+const defaultFilters: FilterOptions = {
+  regions: [],
+  services: [],
+  excludeServices: [],
+  searchTerm: '',
+  matchMode: 'overlaps',
+  includeIPv4: true,
+  includeIPv6: true,
+};
+
+// Mirrors the pages: every filter change replaces the whole filter state
+function Harness({ initial }: { initial: Partial<FilterOptions> }) {
+  const [filters, setFilters] = useState<FilterOptions>({ ...defaultFilters, ...initial });
+  return (
+    <>
+      <FilterControls
+        regions={['us-east-1']}
+        services={['EC2', 'S3', 'ROUTE53']}
+        filters={filters}
+        onFilterChange={setFilters}
+        onClearFilters={() => setFilters(defaultFilters)}
+      />
+      <output data-testid="state">
+        {JSON.stringify({ services: filters.services, excludeServices: filters.excludeServices })}
+      </output>
+    </>
+  );
+}
+
+function renderedState() {
+  return JSON.parse(screen.getByTestId('state').textContent || '{}');
+}
+
+function openServices() {
+  fireEvent.click(screen.getByText(/selected|excluded|Select services/, { selector: 'button span' }));
+}
+
+describe('FilterControls service selection', () => {
+  it('should select an excluded service and stop excluding it', () => {
+    render(<Harness initial={{ excludeServices: ['EC2'] }} />);
+    openServices();
+
+    const option = screen.getByTitle('Stop excluding EC2').parentElement as HTMLElement;
+    fireEvent.click(within(option).getByText('EC2'));
+
+    expect(renderedState()).toEqual({ services: ['EC2'], excludeServices: [] });
+  });
+
+  it('should exclude a selected service and deselect it', () => {
+    render(<Harness initial={{ services: ['EC2', 'S3'] }} />);
+    openServices();
+
+    fireEvent.click(screen.getByTitle('Exclude EC2'));
+
+    expect(renderedState()).toEqual({ services: ['S3'], excludeServices: ['EC2'] });
+  });
+
+  it('should clear both selected and excluded services', () => {
+    render(<Harness initial={{ services: ['EC2'], excludeServices: ['S3'] }} />);
+
+    fireEvent.click(screen.getByText('Clear all'));
+
+    expect(renderedState()).toEqual({ services: [], excludeServices: [] });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, History, Rss, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select';
+import { useAWSIPRanges, useChangeLog } from '@/hooks/useAWSIPRanges';
+import { summarizeDiffByGroup } from '@/lib/diff';
+import { ChangeLogEntry, PrefixAttributes } from '@/types';
+import { cn, parseAWSCreateDate } from '@/lib/utils';
+
+/**
+ * Formats an AWS createDate ("2025-07-15-23-33-17") as a readable UTC date
+ */
+function formatAWSDate(dateString: string): string {
+  const date = parseAWSCreateDate(dateString);
+  if (!date) return dateString;
+
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+function describeEntries(entries: PrefixAttributes[]): string {
+  return entries
+    .map((entry) => `${entry.service} (${entry.region}, ${entry.network_border_group})`)
+    .join(', ') || 'none';
+}
+
+function ChangeEntry({ entry }: { entry: ChangeLogEntry }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const groups = useMemo(() => summarizeDiffByGroup(entry), [entry]);
+  const hasChanges = entry.summary.added + entry.summary.removed + entry.summary.changed > 0;
+
+  return (
+    <div className="bg-card rounded-lg border">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between p-4 text-left hover:bg-accent/50 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={!hasChanges}
+      >
+        <div className="flex items-center space-x-3">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className={cn('h-4 w-4 text-muted-foreground', !hasChanges && 'opacity-0')} />
+          )}
+          <div>
+            <div className="font-medium">{formatAWSDate(entry.to.createDate)}</div>
+            <div className="text-xs text-muted-foreground font-mono">
+              syncToken {entry.from.syncToken} → {entry.to.syncToken}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4 text-sm">
+          <span className="text-green-600 font-medium">+{entry.summary.added.toLocaleString()}</span>
+          <span className="text-destructive font-medium">−{entry.summary.removed.toLocaleString()}</span>
+          <span className="text-amber-600 font-medium">~{entry.summary.changed.toLocaleString()}</span>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t p-4 space-y-6">
+          {/* Counts per region and service */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-medium pb-2">Region</th>
+                <th className="font-medium pb-2">Service</th>
+                <th className="font-medium pb-2 text-right">Added</th>
+                <th className="font-medium pb-2 text-right">Removed</th>
+                <th className="font-medium pb-2 text-right">Changed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((group) => (
+                <tr key={`${group.region}|${group.service}`} className="border-t">
+                  <td className="py-1">{group.region}</td>
+                  <td className="py-1">{group.service}</td>
+                  <td className="py-1 text-right text-green-600">{group.added || ''}</td>
+                  <td className="py-1 text-right text-destructive">{group.removed || ''}</td>
+                  <td className="py-1 text-right text-amber-600">{group.changed || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Prefix details */}
+          <div className="space-y-1 font-mono text-xs">
+            {entry.added.map((prefix) => (
+              <div key={`+${prefix.prefix}|${prefix.service}|${prefix.region}`} className="text-green-600">
+                + {prefix.prefix} {prefix.service} ({prefix.region}, {prefix.network_border_group})
+              </div>
+            ))}
+            {entry.removed.map((prefix) => (
+              <div key={`-${prefix.prefix}|${prefix.service}|${prefix.region}`} className="text-destructive">
+                − {prefix.prefix} {prefix.service} ({prefix.region}, {prefix.network_border_group})
+              </div>
+            ))}
+            {entry.changed.map((change) => (
+              <div key={`~${change.prefix}`} className="text-amber-600">
+                ~ {change.prefix}: {describeEntries(change.before)} → {describeEntries(change.after)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ChangesPage() {
+  const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [selectedServices, setSelectedServices] = useState<string[]>([]);
+
+  const { regions, services } = useAWSIPRanges();
+  const { changes, isLoading, error } = useChangeLog(selectedRegions, selectedServices);
+
+  const hasActiveFilters = selectedRegions.length > 0 || selectedServices.length > 0;
+
+  // Subscribe links carry the current filters
+  const feedQuery = new URLSearchParams();
+  if (selectedRegions.length > 0) feedQuery.set('regions', selectedRegions.join(','));
+  if (selectedServices.length > 0) feedQuery.set('services', selectedServices.join(','));
+  const feedSuffix = feedQuery.toString() ? `?${feedQuery.toString()}` : '';
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      {/* Header Section */}
+      <div className="text-center space-y-4">
+        <div className="flex items-center justify-center space-x-2">
+          <a
+            href="/"
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            IPMapAWS
+          </a>
+          <span className="text-muted-foreground">/</span>
+          <span className="font-medium">changes</span>
+        </div>
+
+        <h1 className="text-4xl font-bold tracking-tight">
+          AWS IP Range Changes
+        </h1>
+
+        <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+          Every AWS publish of ip-ranges.json with the prefixes it added, removed or reassigned.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-4 p-6 bg-card rounded-lg border">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Filter Changes</h2>
+          {hasActiveFilters && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setSelectedRegions([]);
+                setSelectedServices([]);
+              }}
+              className="text-muted-foreground"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Clear Filters
+            </Button>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Regions</label>
+            <SearchableMultiSelect
+              options={regions}
+              selected={selectedRegions}
+              onChange={setSelectedRegions}
+              placeholder="All regions"
+              searchPlaceholder="Search regions..."
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Services</label>
+            <SearchableMultiSelect
+              options={services}
+              selected={selectedServices}
+              onChange={setSelectedServices}
+              placeholder="All services"
+              searchPlaceholder="Search services..."
+            />
+          </div>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+          <Rss className="h-4 w-4" />
+          <span>Subscribe to these changes:</span>
+          <a href={`/feeds/changes.atom${feedSuffix}`} className="hover:text-foreground underline">Atom</a>
+          <a href={`/feeds/changes.rss${feedSuffix}`} className="hover:text-foreground underline">RSS</a>
+        </div>
+      </div>
+
+      {/* Change Log */}
+      {error ? (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-6">
+          <p className="text-sm text-destructive">Failed to load the change history.</p>
+        </div>
+      ) : isLoading && changes.length === 0 ? (
+        <div className="text-center text-sm text-muted-foreground p-8">Loading change history...</div>
+      ) : changes.length === 0 ? (
+        <div className="flex flex-col items-center space-y-2 text-center text-sm text-muted-foreground p-8">
+          <History className="h-6 w-6" />
+          <span>No AWS publishes have been recorded yet.</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {changes.map((entry) => (
+            <ChangeEntry key={entry.to.syncToken} entry={entry} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -8,7 +8,7 @@ import { DataStatus } from '@/components/DataStatus';
 import { usePagination } from '@/components/ui/pagination';
 import { useFilteredIPRanges } from '@/hooks/useAWSIPRanges';
 import { FilterOptions, SortField, SortDirection } from '@/types';
-import { filterPrefixes, sortPrefixes } from '@/lib/api';
+import { filterPrefixes, sortPrefixes, excludeServiceAddresses } from '@/lib/api';
 import { copyToClipboard, debounce } from '@/lib/utils';
 
 interface RegionPageProps {
@@ -16,13 +16,15 @@ interface RegionPageProps {
 }
 
 export default function RegionPage({ region }: RegionPageProps) {
-  const { prefixes, count, isLoading, error } = useFilteredIPRanges(region);
+  const { prefixes, allPrefixes, count, isLoading, error } = useFilteredIPRanges(region);
   
   // State for additional filtering within the region
   const [filters, setFilters] = useState<FilterOptions>({
     regions: [region], // Pre-filtered to this region
     services: [],
+    excludeServices: [],
     searchTerm: '',
+    matchMode: 'overlaps',
     includeIPv4: true,
     includeIPv6: true,
   });
@@ -49,9 +51,13 @@ export default function RegionPage({ region }: RegionPageProps) {
 
   // Apply additional filtering and sorting
   const filteredAndSortedPrefixes = useMemo(() => {
-    const filtered = filterPrefixes(prefixes, filters);
+    const filtered = excludeServiceAddresses(
+      filterPrefixes(prefixes, filters),
+      allPrefixes,
+      filters.excludeServices
+    );
     return sortPrefixes(filtered, sortField, sortDirection);
-  }, [prefixes, filters, sortField, sortDirection]);
+  }, [prefixes, allPrefixes, filters, sortField, sortDirection]);
 
   // Pagination
   const {
@@ -73,7 +79,9 @@ export default function RegionPage({ region }: RegionPageProps) {
     setFilters({
       regions: [region],
       services: [],
+      excludeServices: [],
       searchTerm: '',
+      matchMode: 'overlaps',
       includeIPv4: true,
       includeIPv6: true,
     });
@@ -26,7 +26,9 @@ export default function RegionServicePage({ region, service }: RegionServicePage
   const [filters, setFilters] = useState<FilterOptions>({
     regions: [region],
     services: [service],
+    excludeServices: [],
     searchTerm: '',
+    matchMode: 'overlaps',
     includeIPv4: true,
     includeIPv6: true,
   });
@@ -79,7 +81,9 @@ export default function RegionServicePage({ region, service }: RegionServicePage
     setFilters({
       regions: [region],
       services: [service],
+      excludeServices: [],
       searchTerm: '',
+      matchMode: 'overlaps',
       includeIPv4: true,
       includeIPv6: true,
     });
@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, X, Search } from 'lucide-react';
+import { ChevronDown, X, Search, Minus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface SearchableMultiSelectProps {
   options: string[];
   selected: string[];
   onChange: (selected: string[]) => void;
+  // Enables exclude mode: options can also be marked as excluded. Both
+  // lists are reported together so a move between them is a single update.
+  excluded?: string[];
+  onSelectionChange?: (selected: string[], excluded: string[]) => void;
   placeholder?: string;
   searchPlaceholder?: string;
   className?: string;
@@ -16,6 +20,8 @@ export function SearchableMultiSelect({
   options,
   selected,
   onChange,
+  excluded = [],
+  onSelectionChange,
   placeholder = 'Select items...',
   searchPlaceholder = 'Search...',
   className,
@@ -51,25 +57,48 @@ export function SearchableMultiSelect({
     }
   }, [isOpen]);
 
+  const updateSelection = (nextSelected: string[], nextExcluded: string[]) => {
+    if (onSelectionChange) {
+      onSelectionChange(nextSelected, nextExcluded);
+    } else {
+      onChange(nextSelected);
+    }
+  };
+
   const handleToggleOption = (option: string) => {
     if (selected.includes(option)) {
-      onChange(selected.filter(item => item !== option));
+      updateSelection(selected.filter(item => item !== option), excluded);
     } else {
-      onChange([...selected, option]);
+      // An option can't be both selected and excluded
+      updateSelection([...selected, option], excluded.filter(item => item !== option));
+    }
+  };
+
+  const handleToggleExcluded = (option: string) => {
+    if (!onSelectionChange) return;
+    if (excluded.includes(option)) {
+      onSelectionChange(selected, excluded.filter(item => item !== option));
+    } else {
+      onSelectionChange(selected.filter(item => item !== option), [...excluded, option]);
     }
   };
 
   const handleRemoveSelected = (option: string) => {
-    onChange(selected.filter(item => item !== option));
+    updateSelection(selected.filter(item => item !== option), excluded);
   };
 
   const handleClearAll = () => {
-    onChange([]);
+    updateSelection([], []);
   };
 
-  const displayText = selected.length === 0 
-    ? placeholder 
-    : `${selected.length} selected`;
+  const displayParts = [
+    selected.length > 0 && `${selected.length} selected`,
+    excluded.length > 0 && `${excluded.length} excluded`,
+  ].filter(Boolean);
+  const displayText = displayParts.length === 0
+    ? placeholder
+    : displayParts.join(', ');
+  const selectionCount = selected.length + excluded.length;
 
   return (
     <div className={cn('relative', className)} ref={dropdownRef}>
@@ -85,7 +114,7 @@ export function SearchableMultiSelect({
       >
         <span className={cn(
           'truncate',
-          selected.length === 0 && 'text-muted-foreground'
+          selectionCount === 0 && 'text-muted-foreground'
         )}>
           {displayText}
         </span>
@@ -98,7 +127,7 @@ export function SearchableMultiSelect({
       </button>
 
       {/* Selected items display */}
-      {selected.length > 0 && (
+      {selectionCount > 0 && (
         <div className="mt-2 flex flex-wrap gap-1">
           {selected.map((item) => (
             <span
@@ -115,7 +144,22 @@ export function SearchableMultiSelect({
               </button>
             </span>
           ))}
-          {selected.length > 1 && (
+          {excluded.map((item) => (
+            <span
+              key={item}
+              className="inline-flex items-center gap-1 rounded-md bg-destructive/10 px-2 py-1 text-xs font-medium text-destructive line-through"
+            >
+              {item}
+              <button
+                type="button"
+                onClick={() => handleToggleExcluded(item)}
+                className="hover:text-destructive/80"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {selectionCount > 1 && (
             <button
               type="button"
               onClick={handleClearAll}
@@ -151,26 +195,42 @@ export function SearchableMultiSelect({
               <div className="p-1">
                 {filteredOptions.map((option) => {
                   const isSelected = selected.includes(option);
+                  const isExcluded = excluded.includes(option);
                   return (
-                    <button
-                      key={option}
-                      type="button"
-                      className={cn(
-                        'w-full flex items-center px-2 py-2 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground',
-                        isSelected && 'bg-accent text-accent-foreground'
-                      )}
-                      onClick={() => handleToggleOption(option)}
-                    >
-                      <div className={cn(
-                        'mr-2 h-4 w-4 border border-primary rounded-sm flex items-center justify-center',
-                        isSelected && 'bg-primary border-primary'
-                      )}>
-                        {isSelected && (
-                          <div className="h-2 w-2 bg-primary-foreground rounded-sm" />
+                    <div key={option} className="flex items-center">
+                      <button
+                        type="button"
+                        className={cn(
+                          'flex-1 min-w-0 flex items-center px-2 py-2 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground',
+                          isSelected && 'bg-accent text-accent-foreground',
+                          isExcluded && 'text-destructive line-through'
                         )}
-                      </div>
-                      <span className="truncate">{option}</span>
-                    </button>
+                        onClick={() => handleToggleOption(option)}
+                      >
+                        <div className={cn(
+                          'mr-2 h-4 w-4 border border-primary rounded-sm flex items-center justify-center',
+                          isSelected && 'bg-primary border-primary'
+                        )}>
+                          {isSelected && (
+                            <div className="h-2 w-2 bg-primary-foreground rounded-sm" />
+                          )}
+                        </div>
+                        <span className="truncate">{option}</span>
+                      </button>
+                      {onSelectionChange && (
+                        <button
+                          type="button"
+                          title={isExcluded ? `Stop excluding ${option}` : `Exclude ${option}`}
+                          className={cn(
+                            'ml-1 p-1 rounded-sm text-muted-foreground hover:bg-destructive/10 hover:text-destructive',
+                            isExcluded && 'bg-destructive/10 text-destructive'
+                          )}
+                          onClick={() => handleToggleExcluded(option)}
+                        >
+                          <Minus className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
                   );
                 })}
               </div>
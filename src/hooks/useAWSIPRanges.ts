@@ -1,6 +1,6 @@
 import useSWR from 'swr';
 import { fetchAWSIPRanges, transformAWSIPRanges, extractRegions, extractServices } from '@/lib/api';
-import { AWSIPRanges, CombinedPrefix, IPRangeStats, FilterOptions, SortField, SortDirection } from '@/types';
+import { AWSIPRanges, ChangeLogEntry, ChangesResponse, CombinedPrefix, IPRangeStats, FilterOptions, SortField, SortDirection } from '@/types';
 
 interface UseAWSIPRangesReturn {
   data: AWSIPRanges | undefined;
@@ -110,8 +110,12 @@ export function useAWSIPRangesSearch(
   if (filters.services.length > 0) {
     queryParams.set('services', filters.services.join(','));
   }
+  if (filters.excludeServices.length > 0) {
+    queryParams.set('excludeServices', filters.excludeServices.join(','));
+  }
   if (filters.searchTerm) {
     queryParams.set('searchTerm', filters.searchTerm);
+    queryParams.set('matchMode', filters.matchMode);
   }
   queryParams.set('includeIPv4', filters.includeIPv4.toString());
   queryParams.set('includeIPv6', filters.includeIPv6.toString());
@@ -179,8 +183,55 @@ export function useFilteredIPRanges(region?: string, service?: string) {
 
   return {
     prefixes: filteredPrefixes,
+    // Unscoped prefixes, so service exclusion subtracts across all regions like the API
+    allPrefixes: combinedPrefixes,
     count: filteredPrefixes.length,
     isLoading,
     error,
   };
+}
+
+/**
+ * Hook for fetching the change log, narrowed to the given regions and services
+ */
+export function useChangeLog(regions: string[], services: string[]): {
+  changes: ChangeLogEntry[];
+  isLoading: boolean;
+  error: any;
+} {
+  const queryParams = new URLSearchParams();
+  queryParams.set('limit', '100');
+  if (regions.length > 0) {
+    queryParams.set('regions', regions.join(','));
+  }
+  if (services.length > 0) {
+    queryParams.set('services', services.join(','));
+  }
+
+  const { data, error, isLoading } = useSWR<ChangesResponse>(
+    `/api/aws-ip-ranges/changes?${queryParams.toString()}`,
+    async (url: string) => {
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+          'X-Internal-Request': 'true', // Mark as internal website request to bypass rate limiting
+        },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+      }
+      return response.json();
+    },
+    {
+      keepPreviousData: true,
+      revalidateOnFocus: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    changes: data?.changes || [],
+    isLoading,
+    error,
+  };
 } 
\ No newline at end of file
@@ -213,6 +213,39 @@ describe('API Functions', () => {
       
       expect(result).toHaveLength(2);
     });
+
+    it('should match CIDR search terms structurally by default', () => {
+      const result = filterPrefixes(testPrefixes, {
+        searchTerm: '192.0.0.0/8'
+      });
+      
+      expect(result).toHaveLength(1);
+      expect(result[0].prefix).toBe('192.0.2.0/24');
+    });
+
+    it('should match an IP address inside a prefix', () => {
+      const result = filterPrefixes(testPrefixes, {
+        searchTerm: '203.0.113.77'
+      });
+      
+      expect(result).toHaveLength(1);
+      expect(result[0].service).toBe('S3');
+    });
+
+    it('should respect contains and within match modes', () => {
+      expect(filterPrefixes(testPrefixes, { searchTerm: '192.0.2.0/25', matchMode: 'contains' })).toHaveLength(1);
+      expect(filterPrefixes(testPrefixes, { searchTerm: '192.0.2.0/25', matchMode: 'within' })).toHaveLength(0);
+      expect(filterPrefixes(testPrefixes, { searchTerm: '2001:db8::/16', matchMode: 'within' })).toHaveLength(1);
+    });
+
+    it('should fall back to substring matching in text mode', () => {
+      const result = filterPrefixes(testPrefixes, {
+        searchTerm: '203.0.113.77',
+        matchMode: 'text'
+      });
+      
+      expect(result).toHaveLength(0);
+    });
   });
 
   describe('sortPrefixes', () => {
@@ -278,5 +311,37 @@ describe('API Functions', () => {
       
       expect(testPrefixes).toEqual(original);
     });
+
+    it('should sort prefixes by numeric network address', () => {
+      const result = sortPrefixes([
+        { ...testPrefixes[0], prefix: '13.248.0.0/16' },
+        { ...testPrefixes[0], prefix: '3.5.0.0/16' },
+        { ...testPrefixes[0], prefix: '3.5.0.0/24' },
+        { ...testPrefixes[0], prefix: '52.94.0.0/22' }
+      ], 'prefix', 'asc');
+      
+      expect(result.map(p => p.prefix)).toEqual([
+        '3.5.0.0/16',
+        '3.5.0.0/24',
+        '13.248.0.0/16',
+        '52.94.0.0/22'
+      ]);
+    });
+
+    it('should sort IPv4 before IPv6 and IPv6 numerically', () => {
+      const result = sortPrefixes([
+        { ...testPrefixes[0], prefix: '2600:1f18::/36', type: 'ipv6' },
+        { ...testPrefixes[0], prefix: '240f:8000::/24', type: 'ipv6' },
+        { ...testPrefixes[0], prefix: '2a05:d000::/25', type: 'ipv6' },
+        { ...testPrefixes[0], prefix: '99.77.0.0/18' }
+      ], 'prefix', 'asc');
+      
+      expect(result.map(p => p.prefix)).toEqual([
+        '99.77.0.0/18',
+        '240f:8000::/24',
+        '2600:1f18::/36',
+        '2a05:d000::/25'
+      ]);
+    });
   });
 }); 
\ No newline at end of file
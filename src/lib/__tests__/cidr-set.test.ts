@@ -0,0 +1,125 @@
+import { aggregatePrefixes, subtractPrefixes } from '../cidr-set';
+import { CombinedPrefix } from '@/types';
+
+const makePrefix = (prefix: string, service: string = 'EC2', region: string = 'us-east-1'): CombinedPrefix => ({
+  prefix,
+  region,
+  service,
+  network_border_group: region,
+  type: prefix.includes(':') ? 'ipv6' : 'ipv4'
+});
+
+describe('CIDR Set Functions', () => {
+  describe('aggregatePrefixes', () => {
+    it('should merge adjacent blocks into a supernet', () => {
+      const result = aggregatePrefixes([
+        makePrefix('10.0.1.0/24'),
+        makePrefix('10.0.0.0/24')
+      ]);
+      
+      expect(result.map(p => p.prefix)).toEqual(['10.0.0.0/23']);
+    });
+
+    it('should drop blocks nested in another block', () => {
+      const result = aggregatePrefixes([
+        makePrefix('52.95.0.0/16', 'AMAZON'),
+        makePrefix('52.95.110.0/24', 'EC2'),
+        makePrefix('52.95.110.0/24', 'AMAZON')
+      ]);
+      
+      expect(result).toHaveLength(1);
+      expect(result[0].prefix).toBe('52.95.0.0/16');
+      expect(result[0].service).toBe('AMAZON, EC2');
+    });
+
+    it('should split unaligned ranges into minimal CIDRs', () => {
+      const result = aggregatePrefixes([
+        makePrefix('10.0.1.0/24'),
+        makePrefix('10.0.2.0/24')
+      ]);
+      
+      expect(result.map(p => p.prefix)).toEqual(['10.0.1.0/24', '10.0.2.0/24']);
+    });
+
+    it('should keep families separate and handle IPv6', () => {
+      const result = aggregatePrefixes([
+        makePrefix('2600:1f18::/33'),
+        makePrefix('2600:1f18:8000::/33'),
+        makePrefix('0.0.0.0/1'),
+        makePrefix('128.0.0.0/1')
+      ]);
+      
+      expect(result.map(p => p.prefix)).toEqual(['0.0.0.0/0', '2600:1f18::/32']);
+    });
+
+    it('should attribute merged blocks only to overlapping sources', () => {
+      const result = aggregatePrefixes([
+        makePrefix('10.0.0.0/24', 'EC2', 'us-east-1'),
+        makePrefix('10.0.1.0/25', 'S3', 'eu-west-1'),
+        makePrefix('10.0.1.128/25', 'S3', 'eu-west-1'),
+        makePrefix('10.0.2.0/24', 'S3', 'eu-west-1')
+      ]);
+      
+      expect(result.map(p => p.prefix)).toEqual(['10.0.0.0/23', '10.0.2.0/24']);
+      expect(result[0].region).toBe('eu-west-1, us-east-1');
+      expect(result[1].service).toBe('S3');
+    });
+
+    it('should handle empty input', () => {
+      expect(aggregatePrefixes([])).toEqual([]);
+    });
+  });
+
+  describe('subtractPrefixes', () => {
+    it('should carve an excluded block out of a larger one', () => {
+      const result = subtractPrefixes(
+        [makePrefix('10.0.0.0/22', 'AMAZON')],
+        [makePrefix('10.0.1.0/24', 'EC2')]
+      );
+      
+      expect(result.map(p => p.prefix)).toEqual(['10.0.0.0/24', '10.0.2.0/23']);
+      expect(result.every(p => p.service === 'AMAZON')).toBe(true);
+    });
+
+    it('should drop blocks that are fully excluded', () => {
+      const result = subtractPrefixes(
+        [makePrefix('10.0.0.0/24', 'AMAZON'), makePrefix('10.0.8.0/24', 'AMAZON')],
+        [makePrefix('10.0.0.0/16', 'EC2')]
+      );
+      
+      expect(result).toEqual([]);
+    });
+
+    it('should handle several exclusions across several ranges', () => {
+      const result = subtractPrefixes(
+        [makePrefix('10.0.0.0/24'), makePrefix('10.0.4.0/24')],
+        [
+          makePrefix('10.0.0.0/25'),
+          makePrefix('10.0.4.64/26'),
+          makePrefix('10.0.4.192/26'),
+          makePrefix('192.168.0.0/16')
+        ]
+      );
+      
+      expect(result.map(p => p.prefix)).toEqual(['10.0.0.128/25', '10.0.4.0/26', '10.0.4.128/26']);
+    });
+
+    it('should keep families separate and handle IPv6', () => {
+      const result = subtractPrefixes(
+        [makePrefix('2600:1f18::/32'), makePrefix('52.0.0.0/8')],
+        [makePrefix('2600:1f18:8000::/33'), makePrefix('0.0.0.0/0')]
+      );
+      
+      expect(result.map(p => p.prefix)).toEqual(['2600:1f18::/33']);
+    });
+
+    it('should return the include set unchanged when nothing overlaps', () => {
+      const result = subtractPrefixes(
+        [makePrefix('3.5.140.0/22')],
+        [makePrefix('52.95.110.0/24')]
+      );
+      
+      expect(result.map(p => p.prefix)).toEqual(['3.5.140.0/22']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheValidators, isNotModified, notModifiedResponse, validatorHeaders, withNotModified } from '../conditional-get';
+
+const version = { syncToken: '1705314645', createDate: '2024-01-15-10-30-45' };
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest('https://example.com/api/aws-ip-ranges', { headers });
+
+describe('Conditional GET Functions', () => {
+  describe('getCacheValidators', () => {
+    it('should derive the ETag from the syncToken and Last-Modified from createDate', () => {
+      const validators = getCacheValidators(version, new URLSearchParams());
+      
+      expect(validators.etag).toBe('W/"1705314645"');
+      expect(validators.lastModified).toBe('Mon, 15 Jan 2024 10:30:45 GMT');
+    });
+
+    it('should give each query its own ETag regardless of parameter order', () => {
+      const a = getCacheValidators(version, new URLSearchParams('regions=us-east-1&services=EC2'));
+      const b = getCacheValidators(version, new URLSearchParams('services=EC2&regions=us-east-1'));
+      const c = getCacheValidators(version, new URLSearchParams('regions=us-east-1'));
+      
+      expect(a.etag).toBe(b.etag);
+      expect(a.etag).not.toBe(c.etag);
+      expect(a.etag).toMatch(/^W\/"1705314645-[0-9a-f]{16}"$/);
+    });
+
+    it('should change the ETag with the syncToken', () => {
+      const params = new URLSearchParams('regions=us-east-1');
+      
+      expect(getCacheValidators({ ...version, syncToken: '1705401045' }, params).etag)
+        .not.toBe(getCacheValidators(version, params).etag);
+    });
+  });
+
+  describe('isNotModified', () => {
+    const validators = getCacheValidators(version, new URLSearchParams());
+
+    it('should match If-None-Match, including weak and listed tags', () => {
+      expect(isNotModified(request({ 'If-None-Match': 'W/"1705314645"' }), validators)).toBe(true);
+      expect(isNotModified(request({ 'If-None-Match': '"1705314645"' }), validators)).toBe(true);
+      expect(isNotModified(request({ 'If-None-Match': '"other", W/"1705314645"' }), validators)).toBe(true);
+      expect(isNotModified(request({ 'If-None-Match': '*' }), validators)).toBe(true);
+      expect(isNotModified(request({ 'If-None-Match': 'W/"1705000000"' }), validators)).toBe(false);
+    });
+
+    it('should compare If-Modified-Since with the createDate', () => {
+      expect(isNotModified(request({ 'If-Modified-Since': 'Mon, 15 Jan 2024 10:30:45 GMT' }), validators)).toBe(true);
+      expect(isNotModified(request({ 'If-Modified-Since': 'Mon, 15 Jan 2024 10:00:00 GMT' }), validators)).toBe(false);
+      expect(isNotModified(request({ 'If-Modified-Since': 'not a date' }), validators)).toBe(false);
+    });
+
+    it('should let If-None-Match take precedence over If-Modified-Since', () => {
+      expect(isNotModified(request({
+        'If-None-Match': 'W/"1705000000"',
+        'If-Modified-Since': 'Tue, 16 Jan 2024 00:00:00 GMT',
+      }), validators)).toBe(false);
+    });
+
+    it('should not match unconditional requests', () => {
+      expect(isNotModified(request({}), validators)).toBe(false);
+    });
+  });
+
+  describe('notModifiedResponse', () => {
+    it('should return an empty 304 with the validators', async () => {
+      const validators = getCacheValidators(version, new URLSearchParams());
+      const response = notModifiedResponse(validators, { 'Cache-Control': 'public, s-maxage=60' });
+      
+      expect(response.status).toBe(304);
+      expect(response.headers.get('ETag')).toBe(validators.etag);
+      expect(response.headers.get('Last-Modified')).toBe(validators.lastModified);
+      expect(response.headers.get('Cache-Control')).toBe('public, s-maxage=60');
+      expect(await response.text()).toBe('');
+      expect(validatorHeaders(validators)).toEqual({ 'ETag': validators.etag, 'Last-Modified': validators.lastModified });
+    });
+  });
+
+  describe('withNotModified', () => {
+    const headers = () => ({ 'Cache-Control': 'public, s-maxage=60' });
+
+    it('should answer a current copy without running the handler', async () => {
+      const loadVersion = jest.fn().mockResolvedValue(version);
+      const handler = jest.fn();
+      const response = await withNotModified(request({ 'If-None-Match': 'W/"1705314645"' }), loadVersion, headers, handler);
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get('Cache-Control')).toBe('public, s-maxage=60');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should pass a stale copy\'s version on to the handler', async () => {
+      const loadVersion = jest.fn().mockResolvedValue(version);
+      const handler = jest.fn().mockResolvedValue(NextResponse.json({}));
+      await withNotModified(request({ 'If-None-Match': 'W/"1"' }), loadVersion, headers, handler);
+
+      expect(loadVersion).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(version);
+    });
+
+    it('should not load the version for unconditional requests', async () => {
+      const loadVersion = jest.fn().mockResolvedValue(version);
+      const handler = jest.fn().mockResolvedValue(NextResponse.json({}));
+      await withNotModified(request({}), loadVersion, headers, handler);
+
+      expect(loadVersion).not.toHaveBeenCalled();
+      expect(handler).toHaveBeenCalledWith(null);
+    });
+  });
+});
\ No newline at end of file
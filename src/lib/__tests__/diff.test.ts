@@ -0,0 +1,116 @@
+import { diffAWSIPRanges, filterDiff, summarizeDiffByGroup } from '../diff';
+import { AWSIPRanges } from '@/types';
+
+type Entry = [string, string, string?];
+
+const makeVersion = (syncToken: string, entries: Entry[]): AWSIPRanges => ({
+  syncToken,
+  createDate: `2024-01-${syncToken}-00-00-00`,
+  prefixes: entries
+    .filter(([prefix]) => !prefix.includes(':'))
+    .map(([ip_prefix, service, region = 'us-east-1']) => ({
+      ip_prefix,
+      region,
+      service,
+      network_border_group: region
+    })),
+  ipv6_prefixes: entries
+    .filter(([prefix]) => prefix.includes(':'))
+    .map(([ipv6_prefix, service, region = 'us-east-1']) => ({
+      ipv6_prefix,
+      region,
+      service,
+      network_border_group: region
+    }))
+});
+
+describe('Diff Functions', () => {
+  describe('diffAWSIPRanges', () => {
+    it('should report added and removed prefixes', () => {
+      const diff = diffAWSIPRanges(
+        makeVersion('10', [['3.5.140.0/22', 'AMAZON'], ['2600:1f18::/36', 'EC2']]),
+        makeVersion('11', [['3.5.140.0/22', 'AMAZON'], ['52.95.110.0/24', 'S3']])
+      );
+      
+      expect(diff.added.map(p => p.prefix)).toEqual(['52.95.110.0/24']);
+      expect(diff.removed.map(p => p.prefix)).toEqual(['2600:1f18::/36']);
+      expect(diff.changed).toEqual([]);
+      expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 0 });
+      expect(diff.from.syncToken).toBe('10');
+      expect(diff.to.syncToken).toBe('11');
+    });
+
+    it('should report prefixes whose entries changed', () => {
+      const diff = diffAWSIPRanges(
+        makeVersion('10', [['3.5.140.0/22', 'AMAZON', 'us-east-1']]),
+        makeVersion('11', [['3.5.140.0/22', 'AMAZON', 'us-west-2'], ['3.5.140.0/22', 'EC2', 'us-west-2']])
+      );
+      
+      expect(diff.added).toEqual([]);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0].prefix).toBe('3.5.140.0/22');
+      expect(diff.changed[0].before.map(entry => entry.region)).toEqual(['us-east-1']);
+      expect(diff.changed[0].after.map(entry => entry.service)).toEqual(['AMAZON', 'EC2']);
+    });
+
+    it('should ignore ordering and non-canonical formatting', () => {
+      const diff = diffAWSIPRanges(
+        makeVersion('10', [['2600:1F18:0::/36', 'EC2'], ['3.5.140.0/22', 'S3'], ['3.5.140.0/22', 'AMAZON']]),
+        makeVersion('11', [['3.5.140.0/22', 'AMAZON'], ['3.5.140.0/22', 'S3'], ['2600:1f18::/36', 'EC2']])
+      );
+      
+      expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0 });
+    });
+  });
+
+  describe('filterDiff', () => {
+    const diff = diffAWSIPRanges(
+      makeVersion('10', [['3.5.140.0/22', 'S3', 'us-east-1'], ['13.34.0.0/16', 'AMAZON', 'us-west-2']]),
+      makeVersion('11', [
+        ['3.5.140.0/22', 'S3', 'eu-west-1'],
+        ['52.95.110.0/24', 'EC2', 'us-east-1'],
+        ['2600:1f18::/36', 'EC2', 'us-west-2']
+      ])
+    );
+
+    it('should keep only entries in the selected regions and services', () => {
+      const filtered = filterDiff(diff, { regions: ['us-east-1'], services: ['EC2'] });
+      
+      expect(filtered.added.map(p => p.prefix)).toEqual(['52.95.110.0/24']);
+      expect(filtered.removed).toEqual([]);
+      expect(filtered.changed).toEqual([]);
+      expect(filtered.summary).toEqual({ added: 1, removed: 0, changed: 0 });
+    });
+
+    it('should keep changed prefixes that moved into or out of a selected region', () => {
+      const filtered = filterDiff(diff, { regions: ['us-east-1'], services: [] });
+      
+      expect(filtered.changed.map(change => change.prefix)).toEqual(['3.5.140.0/22']);
+    });
+
+    it('should drop IP versions that are excluded', () => {
+      const filtered = filterDiff(diff, { regions: [], services: ['EC2'], includeIPv4: false, includeIPv6: true });
+      
+      expect(filtered.added.map(p => p.prefix)).toEqual(['2600:1f18::/36']);
+    });
+
+    it('should return everything when no filters are set', () => {
+      expect(filterDiff(diff, { regions: [], services: [] }).summary).toEqual(diff.summary);
+    });
+  });
+
+  describe('summarizeDiffByGroup', () => {
+    it('should count changes per region and service', () => {
+      const diff = diffAWSIPRanges(
+        makeVersion('10', [['3.5.140.0/22', 'S3', 'us-east-1'], ['13.34.0.0/16', 'EC2', 'us-east-1']]),
+        makeVersion('11', [['3.5.140.0/22', 'S3', 'eu-west-1'], ['52.95.110.0/24', 'EC2', 'us-east-1']])
+      );
+      
+      expect(summarizeDiffByGroup(diff)).toEqual([
+        { region: 'eu-west-1', service: 'S3', added: 0, removed: 0, changed: 1 },
+        { region: 'us-east-1', service: 'EC2', added: 1, removed: 1, changed: 0 },
+        { region: 'us-east-1', service: 'S3', added: 0, removed: 0, changed: 1 }
+      ]);
+    });
+  });
+});
\ No newline at end of file
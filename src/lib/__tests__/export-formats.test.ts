@@ -0,0 +1,722 @@
+import { EXPORT_FORMATTERS, commentHeader, exportFilename, formatApache, formatCaddy, formatCalicoNetworkSet, formatCisco, formatCdkTs, formatCiliumPolicy, formatCloudFormation, formatCsv, formatHAProxy, formatJuniper, formatMikroTik, formatIpset, formatIptables, formatNdjson, formatNetworkPolicy, formatNginx, formatNginxGeo, formatPf, formatNftables, formatPrefixLists, formatSecurityGroups, formatTerraform, toYamlLines, formatTxt, parseExportFormat, uniqueCIDRs, ExportContext, ExportOptionsError } from '../export-formats';
+import { CombinedPrefix } from '@/types';
+
+const makePrefix = (prefix: string, service: string, region = 'us-east-1'): CombinedPrefix => ({
+  prefix,
+  region,
+  service,
+  network_border_group: region,
+  type: prefix.includes(':') ? 'ipv6' : 'ipv4'
+});
+
+const prefixes = [
+  makePrefix('3.5.140.0/22', 'AMAZON'),
+  makePrefix('3.5.140.0/22', 'S3'),
+  makePrefix('2600:1f18::/36', 'EC2')
+];
+
+const context: ExportContext = {
+  version: { syncToken: '1705314645', createDate: '2024-01-15-10-30-45' },
+  filters: {
+    regions: ['us-east-1'],
+    services: [],
+    excludeServices: [],
+    searchTerm: '',
+    matchMode: 'text',
+    includeIPv4: true,
+    includeIPv6: true
+  },
+  aggregated: false,
+  options: new URLSearchParams()
+};
+
+const withOptions = (query: string): ExportContext => ({ ...context, options: new URLSearchParams(query) });
+
+const cidrs = { ipv4: ['3.5.140.0/22'], ipv6: ['2600:1f18::/36'] };
+
+describe('Export Format Functions', () => {
+  describe('parseExportFormat', () => {
+    it('should default to json and reject unknown formats', () => {
+      expect(parseExportFormat(null)).toBe('json');
+      expect(parseExportFormat('txt')).toBe('txt');
+      expect(parseExportFormat('csv')).toBe('csv');
+      expect(parseExportFormat('ndjson')).toBe('ndjson');
+      expect(parseExportFormat('ipset')).toBe('ipset');
+      expect(parseExportFormat('iptables')).toBe('iptables');
+      expect(parseExportFormat('nftables')).toBe('nftables');
+      expect(parseExportFormat('security-group')).toBe('security-group');
+      expect(parseExportFormat('terraform')).toBe('terraform');
+      expect(parseExportFormat('cloudformation-json')).toBe('cloudformation-json');
+      expect(parseExportFormat('cdk-ts')).toBe('cdk-ts');
+      expect(parseExportFormat('calico')).toBe('calico');
+      expect(parseExportFormat('nginx-geo')).toBe('nginx-geo');
+      expect(parseExportFormat('mikrotik')).toBe('mikrotik');
+      expect(parseExportFormat('xml')).toBeNull();
+    });
+  });
+
+  describe('uniqueCIDRs', () => {
+    it('should list each CIDR once in order', () => {
+      expect(uniqueCIDRs(prefixes)).toEqual(['3.5.140.0/22', '2600:1f18::/36']);
+    });
+  });
+
+  describe('formatTxt', () => {
+    it('should output one CIDR per line', () => {
+      expect(formatTxt(prefixes, context, false)).toEqual(['3.5.140.0/22', '2600:1f18::/36']);
+    });
+
+    it('should prepend comment lines describing the export', () => {
+      const lines = formatTxt(prefixes, context, true);
+      
+      expect(lines.slice(-2)).toEqual(['3.5.140.0/22', '2600:1f18::/36']);
+      expect(lines).toContain('# syncToken: 1705314645');
+      expect(lines).toContain('# createDate: 2024-01-15-10-30-45');
+      expect(lines).toContain('# regions: us-east-1');
+      expect(lines).toContain('# services: all');
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should output a header row and one row per entry', () => {
+      expect(formatCsv(prefixes)).toEqual([
+        'prefix,region,service,network_border_group,type',
+        '3.5.140.0/22,us-east-1,AMAZON,us-east-1,ipv4',
+        '3.5.140.0/22,us-east-1,S3,us-east-1,ipv4',
+        '2600:1f18::/36,us-east-1,EC2,us-east-1,ipv6'
+      ]);
+    });
+
+    it('should quote values containing commas', () => {
+      expect(formatCsv([makePrefix('3.5.140.0/22', 'A,B')])[1]).toBe('3.5.140.0/22,us-east-1,"A,B",us-east-1,ipv4');
+    });
+  });
+
+  describe('formatNdjson', () => {
+    it('should output one JSON object per line', () => {
+      const lines = formatNdjson(prefixes);
+      
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[2])).toEqual(prefixes[2]);
+    });
+  });
+
+  describe('formatIpset', () => {
+    it('should build and swap in one hash:net set per family', () => {
+      const lines = formatIpset(context, cidrs).filter((line) => !line.startsWith('#'));
+
+      expect(lines).toEqual([
+        'create aws-ip-ranges-v4 hash:net family inet hashsize 1024 maxelem 65536 -exist',
+        'create aws-ip-ranges-v4-tmp hash:net family inet hashsize 1024 maxelem 65536 -exist',
+        'flush aws-ip-ranges-v4-tmp',
+        'add aws-ip-ranges-v4-tmp 3.5.140.0/22',
+        'swap aws-ip-ranges-v4-tmp aws-ip-ranges-v4',
+        'destroy aws-ip-ranges-v4-tmp',
+        'create aws-ip-ranges-v6 hash:net family inet6 hashsize 1024 maxelem 65536 -exist',
+        'create aws-ip-ranges-v6-tmp hash:net family inet6 hashsize 1024 maxelem 65536 -exist',
+        'flush aws-ip-ranges-v6-tmp',
+        'add aws-ip-ranges-v6-tmp 2600:1f18::/36',
+        'swap aws-ip-ranges-v6-tmp aws-ip-ranges-v6',
+        'destroy aws-ip-ranges-v6-tmp'
+      ]);
+    });
+
+    it('should use the set name option and skip excluded families', () => {
+      const lines = formatIpset({ ...withOptions('setName=aws'), filters: { ...context.filters, includeIPv6: false } }, cidrs);
+
+      expect(lines).toContain('add aws-v4-tmp 3.5.140.0/22');
+      expect(lines.some((line) => line.includes('inet6'))).toBe(false);
+    });
+
+    it('should reject set names ipset cannot hold', () => {
+      expect(() => formatIpset(withOptions('setName=bad%20name'), cidrs)).toThrow(ExportOptionsError);
+      expect(() => formatIpset(withOptions(`setName=${'a'.repeat(25)}`), cidrs)).toThrow(/setName/);
+    });
+  });
+
+  describe('formatIptables', () => {
+    it('should append a set match to INPUT by default', () => {
+      expect(formatIptables(context).filter((line) => !line.startsWith('#'))).toEqual([
+        '*filter',
+        '-A INPUT -m set --match-set aws-ip-ranges-v4 src -j ACCEPT',
+        'COMMIT'
+      ]);
+    });
+
+    it('should declare custom chains and apply the chosen options', () => {
+      const lines = formatIptables(withOptions('setName=aws&chain=AWS-IN&target=DROP&direction=dst&family=inet6'));
+
+      expect(lines).toContain(':AWS-IN - [0:0]');
+      expect(lines).toContain('-A AWS-IN -m set --match-set aws-v6 dst -j DROP');
+      expect(lines).toContain('# Load the sets first (format=ipset), then: ip6tables-restore --noflush < this-file');
+    });
+
+    it('should default to IPv6 rules when IPv4 is excluded', () => {
+      const lines = formatIptables({ ...context, filters: { ...context.filters, includeIPv4: false } });
+
+      expect(lines).toContain('-A INPUT -m set --match-set aws-ip-ranges-v6 src -j ACCEPT');
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => formatIptables(withOptions('target=REJECT'))).toThrow('Invalid target "REJECT": expected one of ACCEPT, DROP');
+      expect(() => formatIptables(withOptions('chain=IN%20PUT'))).toThrow(ExportOptionsError);
+      expect(() => formatIptables({ ...withOptions('family=inet'), filters: { ...context.filters, includeIPv4: false } })).toThrow(/excluded/);
+    });
+  });
+
+  describe('formatNftables', () => {
+    it('should replace the table and define interval sets', () => {
+      const lines = formatNftables(context, { ipv4: ['3.5.140.0/22', '13.34.37.64/27'], ipv6: ['2600:1f18::/36'] });
+
+      expect(lines[0]).toBe('#!/usr/sbin/nft -f');
+      expect(lines.filter((line) => !line.startsWith('#'))).toEqual([
+        'table inet aws_ip_ranges',
+        'delete table inet aws_ip_ranges',
+        'table inet aws_ip_ranges {',
+        '\tset aws_ipv4 {',
+        '\t\ttype ipv4_addr',
+        '\t\tflags interval',
+        '\t\tauto-merge',
+        '\t\telements = {',
+        '\t\t\t3.5.140.0/22,',
+        '\t\t\t13.34.37.64/27',
+        '\t\t}',
+        '\t}',
+        '',
+        '\tset aws_ipv6 {',
+        '\t\ttype ipv6_addr',
+        '\t\tflags interval',
+        '\t\tauto-merge',
+        '\t\telements = {',
+        '\t\t\t2600:1f18::/36',
+        '\t\t}',
+        '\t}',
+        '}'
+      ]);
+    });
+
+    it('should aggregate overlapping prefixes', () => {
+      const lines = EXPORT_FORMATTERS.nftables.render(prefixes.concat(makePrefix('3.5.142.0/23', 'EC2')), context);
+
+      expect(lines.filter((line) => line.indexOf('3.5.14') !== -1)).toEqual(['\t\t\t3.5.140.0/22']);
+    });
+
+    it('should leave out the element list of an empty set', () => {
+      const lines = formatNftables(context, { ipv4: [], ipv6: ['2600:1f18::/36'] });
+
+      expect(lines.filter((line) => line.includes('elements'))).toHaveLength(1);
+    });
+
+    it('should add an example chain when a rule is requested', () => {
+      const lines = formatNftables(withOptions('table=edge&setName=cf&rule=drop&direction=dst'), cidrs);
+
+      expect(lines).toContain('table inet edge {');
+      expect(lines).toContain('\tchain output {');
+      expect(lines).toContain('\t\tip daddr @cf_ipv4 drop');
+      expect(lines).toContain('\t\tip6 daddr @cf_ipv6 drop');
+    });
+
+    it('should reject names nft cannot parse', () => {
+      expect(() => formatNftables(withOptions('table=aws-ranges'), cidrs)).toThrow(ExportOptionsError);
+      expect(() => formatNftables(withOptions('rule=reject'), cidrs)).toThrow(/rule/);
+    });
+  });
+
+  describe('formatPrefixLists', () => {
+    it('should create one list per address family', () => {
+      const lists = JSON.parse(formatPrefixLists(prefixes, context).join('\n'));
+
+      expect(lists).toEqual([
+        { PrefixListName: 'aws-ip-ranges-ipv4', AddressFamily: 'IPv4', MaxEntries: 100, Entries: [{ Cidr: '3.5.140.0/22' }] },
+        { PrefixListName: 'aws-ip-ranges-ipv6', AddressFamily: 'IPv6', MaxEntries: 100, Entries: [{ Cidr: '2600:1f18::/36' }] }
+      ]);
+    });
+
+    it('should split lists at maxEntries and describe shared CIDRs once', () => {
+      const many = prefixes.concat(makePrefix('13.34.37.64/27', 'EC2', 'eu-west-1'), makePrefix('52.94.76.0/22', 'S3'));
+      const lists = JSON.parse(formatPrefixLists(many, withOptions('name=edge&maxEntries=2&descriptions=true')).join('\n'));
+
+      expect(lists.map((list: { PrefixListName: string }) => list.PrefixListName)).toEqual(['edge-ipv4-1', 'edge-ipv4-2', 'edge-ipv6']);
+      expect(lists[0].Entries).toEqual([
+        { Cidr: '3.5.140.0/22', Description: 'AMAZON,S3 us-east-1' },
+        { Cidr: '13.34.37.64/27', Description: 'EC2 eu-west-1' }
+      ]);
+      expect(lists[1].Entries).toHaveLength(1);
+    });
+
+    it('should add to an existing list with action=modify', () => {
+      const many = prefixes.concat(makePrefix('13.34.37.64/27', 'EC2'), makePrefix('52.94.76.0/22', 'S3'));
+      const modify = withOptions('action=modify&prefixListId=pl-0123456789abcdef0&currentVersion=4&targetMaxEntries=3&maxEntries=2');
+      const lists = JSON.parse(formatPrefixLists(many, { ...modify, filters: { ...modify.filters, includeIPv6: false } }).join('\n'));
+
+      expect(lists).toEqual([
+        { PrefixListId: 'pl-0123456789abcdef0', CurrentVersion: 4, AddEntries: [{ Cidr: '3.5.140.0/22' }, { Cidr: '13.34.37.64/27' }] },
+        { PrefixListId: 'pl-0123456789abcdef0', CurrentVersion: 5, AddEntries: [{ Cidr: '52.94.76.0/22' }] }
+      ]);
+    });
+
+    it('should reject modify exports that exceed the target list\'s MaxEntries', () => {
+      const many = prefixes.concat(makePrefix('13.34.37.64/27', 'EC2'), makePrefix('52.94.76.0/22', 'S3'));
+      const modify = withOptions('action=modify&prefixListId=pl-0123456789abcdef0&currentVersion=4&targetMaxEntries=2');
+      const ipv4Only = { ...modify, filters: { ...modify.filters, includeIPv6: false } };
+
+      expect(() => formatPrefixLists(many, ipv4Only)).toThrow(/3 IPv4 entries .* at most 2/);
+      expect(() => formatPrefixLists(many, withOptions('action=modify&prefixListId=pl-0123456789abcdef0&currentVersion=4'))).toThrow(/targetMaxEntries/);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => formatPrefixLists(prefixes, withOptions('maxEntries=101'))).toThrow(ExportOptionsError);
+      expect(() => formatPrefixLists(prefixes, withOptions('name=com.amazonaws.mine'))).toThrow(/name/);
+      expect(() => formatPrefixLists(prefixes, withOptions('action=modify'))).toThrow(/prefixListId/);
+      expect(() => formatPrefixLists(prefixes, withOptions('action=modify&prefixListId=sg-0123456789abcdef0&currentVersion=1'))).toThrow(/prefixListId/);
+      expect(() => formatPrefixLists(prefixes, withOptions('action=modify&prefixListId=pl-0123456789abcdef0&currentVersion=1&targetMaxEntries=1000'))).toThrow(/single address family/);
+    });
+  });
+
+  describe('formatSecurityGroups', () => {
+    it('should allow HTTPS from every CIDR by default', () => {
+      const groups = JSON.parse(formatSecurityGroups(prefixes, context).join('\n'));
+
+      expect(groups).toEqual([{
+        IpPermissions: [{
+          IpProtocol: 'tcp',
+          FromPort: 443,
+          ToPort: 443,
+          IpRanges: [{ CidrIp: '3.5.140.0/22' }],
+          Ipv6Ranges: [{ CidrIpv6: '2600:1f18::/36' }]
+        }]
+      }]);
+    });
+
+    it('should chunk each family by rulesPerGroup', () => {
+      const many = prefixes.concat(makePrefix('13.34.37.64/27', 'EC2'), makePrefix('52.94.76.0/22', 'S3'));
+      const groups = JSON.parse(formatSecurityGroups(many, withOptions('rulesPerGroup=2&port=8000-8080&protocol=udp')).join('\n'));
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].IpPermissions[0]).toMatchObject({ IpProtocol: 'udp', FromPort: 8000, ToPort: 8080 });
+      expect(groups[0].IpPermissions[0].IpRanges).toHaveLength(2);
+      expect(groups[0].IpPermissions[0].Ipv6Ranges).toHaveLength(1);
+      expect(groups[1].IpPermissions[0].IpRanges).toEqual([{ CidrIp: '52.94.76.0/22' }]);
+      expect(groups[1].IpPermissions[0].Ipv6Ranges).toEqual([]);
+    });
+
+    it('should target the given security groups', () => {
+      const many = prefixes.concat(makePrefix('13.34.37.64/27', 'EC2'), makePrefix('52.94.76.0/22', 'S3'));
+      const groups = JSON.parse(formatSecurityGroups(many, withOptions('rulesPerGroup=2&securityGroupId=sg-0123456789abcdef0,sg-0fedcba9876543210')).join('\n'));
+
+      expect(groups.map((group: { GroupId: string }) => group.GroupId)).toEqual(['sg-0123456789abcdef0', 'sg-0fedcba9876543210']);
+      expect(() => formatSecurityGroups(many, withOptions('rulesPerGroup=2&securityGroupId=sg-0123456789abcdef0'))).toThrow(/2 security groups/);
+      expect(() => formatSecurityGroups(many, withOptions('securityGroupId=group-1'))).toThrow(ExportOptionsError);
+    });
+
+    it('should leave ports out for all traffic', () => {
+      const groups = JSON.parse(formatSecurityGroups(prefixes, withOptions('protocol=-1')).join('\n'));
+
+      expect(groups[0].IpPermissions[0].FromPort).toBeUndefined();
+    });
+
+    it('should reject invalid ports', () => {
+      expect(() => formatSecurityGroups(prefixes, withOptions('port=8080-80'))).toThrow(ExportOptionsError);
+      expect(() => formatSecurityGroups(prefixes, withOptions('port=70000'))).toThrow(/port/);
+    });
+  });
+
+  describe('formatTerraform', () => {
+    it('should list CIDRs in address order in locals', () => {
+      const lines = formatTerraform({ ...withOptions('resources=none'), filters: { ...context.filters, includeIPv6: false } }, { ipv4: ['52.94.76.0/22', '3.5.140.0/22'], ipv6: [] });
+
+      expect(lines).toContain('# syncToken: 1705314645');
+      expect(lines.slice(lines.indexOf('locals {'))).toEqual([
+        'locals {',
+        '  aws_ip_ranges_ipv4 = [',
+        '    "3.5.140.0/22",',
+        '    "52.94.76.0/22",',
+        '  ]',
+        '}'
+      ]);
+    });
+
+    it('should build prefix lists and security group rules from the locals', () => {
+      const lines = formatTerraform(withOptions('port=80-81'), cidrs);
+
+      expect(lines).toContain('  aws_ip_ranges_ipv6_chunks = chunklist(local.aws_ip_ranges_ipv6, 60)');
+      expect(lines).toContain('variable "aws_ip_ranges_security_group_id" {');
+      expect(lines).toContain('resource "aws_ec2_managed_prefix_list" "aws_ip_ranges_ipv4" {');
+      expect(lines).toContain('  name           = "aws-ip-ranges-ipv4-${count.index + 1}"');
+      expect(lines).toContain('  address_family = "IPv6"');
+      expect(lines).toContain('    for_each = local.aws_ip_ranges_ipv4_chunks[count.index]');
+      expect(lines).toContain('  from_port         = 80');
+      expect(lines).toContain('  to_port           = 81');
+      expect(lines).toContain('  security_group_id = var.aws_ip_ranges_security_group_id');
+    });
+
+    it('should use a given security group and skip rules when asked', () => {
+      const withGroup = formatTerraform(withOptions('name=cdn&securityGroupId=sg-0123456789abcdef0'), cidrs);
+      const listsOnly = formatTerraform(withOptions('resources=prefix-list'), cidrs);
+
+      expect(withGroup).toContain('  security_group_id = "sg-0123456789abcdef0"');
+      expect(withGroup.some((line) => line.startsWith('variable'))).toBe(false);
+      expect(listsOnly.some((line) => line.includes('aws_security_group_rule'))).toBe(false);
+      expect(listsOnly.some((line) => line.startsWith('variable'))).toBe(false);
+    });
+
+    it('should size every list to maxEntries, defaulting to the security group rules quota', () => {
+      const withRules = formatTerraform(context, cidrs);
+      const listsOnly = formatTerraform(withOptions('resources=prefix-list'), cidrs);
+      const custom = formatTerraform(withOptions('maxEntries=200'), cidrs);
+
+      expect(withRules).toContain('  max_entries    = 60');
+      expect(withRules.some((line) => line.startsWith('# Each rule counts as 60 rules'))).toBe(true);
+      expect(listsOnly).toContain('  max_entries    = 1000');
+      expect(listsOnly.some((line) => line.startsWith('# Each rule'))).toBe(false);
+      expect(custom).toContain('  aws_ip_ranges_ipv4_chunks = chunklist(local.aws_ip_ranges_ipv4, 200)');
+      expect(custom).toContain('  max_entries    = 200');
+    });
+
+    it('should reject names that are not valid identifiers', () => {
+      expect(() => formatTerraform(withOptions('name=1st'), cidrs)).toThrow(ExportOptionsError);
+      expect(() => formatTerraform(withOptions('securityGroupId=default'), cidrs)).toThrow(/securityGroupId/);
+    });
+  });
+
+  describe('toYamlLines', () => {
+    it('should emit block style YAML, quoting ambiguous strings', () => {
+      expect(toYamlLines({
+        Version: '2010-09-09',
+        Name: 'aws-ip-ranges',
+        Enabled: 'yes',
+        Count: 2,
+        Entries: [{ Cidr: '3.5.140.0/22', Note: "it's" }, 'plain'],
+        Empty: [],
+        Nested: { Ref: 'SecurityGroupId' }
+      })).toEqual([
+        "Version: '2010-09-09'",
+        'Name: aws-ip-ranges',
+        "Enabled: 'yes'",
+        'Count: 2',
+        'Entries:',
+        "  - Cidr: '3.5.140.0/22'",
+        "    Note: 'it''s'",
+        '  - plain',
+        'Empty: []',
+        'Nested:',
+        '  Ref: SecurityGroupId'
+      ]);
+    });
+  });
+
+  describe('formatCloudFormation', () => {
+    it('should define a prefix list and ingress rule per family', () => {
+      const template = JSON.parse(formatCloudFormation(context, cidrs, 'json').join('\n'))[0];
+
+      expect(template.Parameters.SecurityGroupId.Type).toBe('AWS::EC2::SecurityGroup::Id');
+      expect(Object.keys(template.Resources)).toEqual([
+        'AwsIpRangesIpv4List1',
+        'AwsIpRangesIpv4List1Ingress',
+        'AwsIpRangesIpv6List1',
+        'AwsIpRangesIpv6List1Ingress'
+      ]);
+      expect(template.Resources.AwsIpRangesIpv6List1.Properties).toEqual({
+        PrefixListName: 'aws-ip-ranges-ipv6-1',
+        AddressFamily: 'IPv6',
+        MaxEntries: 60,
+        Entries: [{ Cidr: '2600:1f18::/36' }]
+      });
+      expect(template.Resources.AwsIpRangesIpv4List1Ingress.Properties).toEqual({
+        GroupId: { Ref: 'SecurityGroupId' },
+        IpProtocol: 'tcp',
+        FromPort: 443,
+        ToPort: 443,
+        SourcePrefixListId: { 'Fn::GetAtt': ['AwsIpRangesIpv4List1', 'PrefixListId'] },
+        Description: 'aws-ip-ranges-ipv4-1'
+      });
+    });
+
+    it('should emit YAML with the export details as comments', () => {
+      const lines = formatCloudFormation(withOptions('resources=prefix-list'), cidrs, 'yaml');
+
+      expect(lines).toContain('# syncToken: 1705314645');
+      expect(lines).toContain("AWSTemplateFormatVersion: '2010-09-09'");
+      expect(lines).toContain("        - Cidr: '3.5.140.0/22'");
+      expect(lines).toContain('      MaxEntries: 1000');
+      expect(lines.some((line) => line.includes('SecurityGroupIngress'))).toBe(false);
+      expect(lines.some((line) => line.startsWith('# Each ingress rule'))).toBe(false);
+    });
+
+    it('should note the security group rules each ingress rule counts as', () => {
+      const lines = formatCloudFormation(withOptions('maxEntries=100'), cidrs, 'yaml');
+
+      expect(lines).toContain('      MaxEntries: 100');
+      expect(lines.some((line) => line.startsWith('# Each ingress rule counts as 100 rules'))).toBe(true);
+    });
+
+    it('should split templates that exceed the size limit', () => {
+      const many = Array.from({ length: 3000 }, (_, i) => `10.${i >> 8}.${i & 255}.0/24`);
+      const templates = JSON.parse(formatCloudFormation(withOptions('securityGroupId=sg-0123456789abcdef0'), { ipv4: many, ipv6: [] }, 'json').join('\n'));
+
+      expect(templates.length).toBeGreaterThan(1);
+      templates.forEach((template: { Resources: object }) => {
+        expect(JSON.stringify(template, null, 2).length).toBeLessThanOrEqual(51200);
+      });
+      // Templates are filled up to the limit rather than split early
+      expect(JSON.stringify(templates[0], null, 2).length).toBeGreaterThan(45000);
+      const names = templates.reduce((all: string[], template: { Resources: Record<string, { Properties: { PrefixListName?: string; Entries?: unknown[] } }> }) =>
+        all.concat(Object.keys(template.Resources).filter((key) => !key.endsWith('Ingress'))), []);
+      expect(names[0]).toBe('AwsIpRangesIpv4List1');
+      expect(names).toContain(`AwsIpRangesIpv4List${names.length}`);
+      const entries = templates.reduce((total: number, template: { Resources: Record<string, { Properties: { Entries?: unknown[] } }> }) =>
+        total + Object.keys(template.Resources).reduce((sum, key) => sum + (template.Resources[key].Properties.Entries || []).length, 0), 0);
+      expect(entries).toBe(3000);
+    });
+
+    it('should separate YAML templates with document markers', () => {
+      const many = Array.from({ length: 3000 }, (_, i) => `10.${i >> 8}.${i & 255}.0/24`);
+
+      expect(formatCloudFormation(context, { ipv4: many, ipv6: [] }, 'yaml')).toContain('---');
+    });
+  });
+
+  describe('formatCdkTs', () => {
+    it('should export typed constant arrays in address order', () => {
+      const lines = formatCdkTs(withOptions('name=cloudfront'), { ipv4: ['52.94.76.0/22', '3.5.140.0/22'], ipv6: [] });
+
+      expect(lines[0]).toBe('// AWS IP ranges exported by IPMapAWS');
+      expect(lines).toContain("export const CLOUDFRONT_SYNC_TOKEN = '1705314645';");
+      expect(lines.join('\n')).toContain("export const CLOUDFRONT_IPV4 = [\n  '3.5.140.0/22',\n  '52.94.76.0/22',\n] as const;");
+      expect(lines).toContain('export type CloudfrontIpv4Cidr = typeof CLOUDFRONT_IPV4[number];');
+      expect(lines).toContain('export const CLOUDFRONT_IPV6 = [] as const;');
+    });
+  });
+
+  describe('Kubernetes formats', () => {
+    const manifest = (lines: string[]) => lines.filter((line) => !line.startsWith('#'));
+
+    it('should render a NetworkPolicy with an ipBlock per CIDR and DNS to kube-dns', () => {
+      expect(manifest(formatNetworkPolicy(prefixes, withOptions('name=s3-egress&namespace=uploads&podSelector=app=uploader')))).toEqual([
+        'apiVersion: networking.k8s.io/v1',
+        'kind: NetworkPolicy',
+        'metadata:',
+        '  name: s3-egress',
+        '  namespace: uploads',
+        '  labels:',
+        '    app.kubernetes.io/managed-by: ipmapaws',
+        'spec:',
+        '  podSelector:',
+        '    matchLabels:',
+        '      app: uploader',
+        '  policyTypes:',
+        '    - Egress',
+        '  egress:',
+        '    - to:',
+        '        - ipBlock:',
+        "            cidr: '3.5.140.0/22'",
+        '        - ipBlock:',
+        "            cidr: '2600:1f18::/36'",
+        '    - to:',
+        '        - namespaceSelector:',
+        '            matchLabels:',
+        '              kubernetes.io/metadata.name: kube-system',
+        '          podSelector:',
+        '            matchLabels:',
+        '              k8s-app: kube-dns',
+        '      ports:',
+        '        - protocol: UDP',
+        '          port: 53',
+        '        - protocol: TCP',
+        '          port: 53'
+      ]);
+    });
+
+    it('should deny all egress when nothing matches and DNS is left out', () => {
+      const lines = formatNetworkPolicy([], withOptions('dns=false'));
+
+      expect(lines).toContain('  podSelector: {}');
+      expect(lines).toContain('  egress: []');
+      expect(lines.some((line) => line.includes('kube-dns'))).toBe(false);
+    });
+
+    it('should note the DNS rule in the header', () => {
+      const lines = formatNetworkPolicy([], context);
+
+      expect(lines.some((line) => line.startsWith('# Also allows DNS to kube-dns pods in kube-system on port 53'))).toBe(true);
+      expect(() => formatNetworkPolicy([], withOptions('dns=maybe'))).toThrow(ExportOptionsError);
+    });
+
+    it('should render a CiliumNetworkPolicy with toCIDRSet', () => {
+      const lines = formatCiliumPolicy(prefixes, { ...withOptions('labels=team=platform,egress=s3'), filters: { ...context.filters, includeIPv6: false } });
+
+      expect(lines).toContain('kind: CiliumNetworkPolicy');
+      expect(lines).toContain('    team: platform');
+      expect(lines).toContain('    egress: s3');
+      expect(lines).toContain('    - toCIDRSet:');
+      expect(lines).toContain("        - cidr: '3.5.140.0/22'");
+      expect(lines.some((line) => line.includes('2600:'))).toBe(false);
+      expect(manifest(lines).slice(-10)).toEqual([
+        '    - toEndpoints:',
+        '        - matchLabels:',
+        '            k8s:io.kubernetes.pod.namespace: kube-system',
+        '            k8s-app: kube-dns',
+        '      toPorts:',
+        '        - ports:',
+        "            - port: '53'",
+        '              protocol: UDP',
+        "            - port: '53'",
+        '              protocol: TCP'
+      ]);
+    });
+
+    it('should render a cluster-wide Calico GlobalNetworkSet', () => {
+      const lines = manifest(formatCalicoNetworkSet(prefixes, withOptions('namespace=ignored')));
+
+      expect(lines).toContain('kind: GlobalNetworkSet');
+      expect(lines.some((line) => line.includes('namespace'))).toBe(false);
+      expect(lines.slice(-3)).toEqual(['  nets:', "    - '3.5.140.0/22'", "    - '2600:1f18::/36'"]);
+    });
+
+    it('should reject invalid names and labels', () => {
+      expect(() => formatNetworkPolicy(prefixes, withOptions('name=AWS_Ranges'))).toThrow(ExportOptionsError);
+      expect(() => formatCiliumPolicy(prefixes, withOptions('labels=team'))).not.toThrow();
+      expect(() => formatCiliumPolicy(prefixes, withOptions('labels=te am=x'))).toThrow(/labels/);
+      expect(() => formatCalicoNetworkSet(prefixes, withOptions('labels=a=b=c'))).toThrow(ExportOptionsError);
+    });
+  });
+
+  describe('Reverse proxy formats', () => {
+    const body = (lines: string[]) => lines.filter((line) => !line.startsWith('#'));
+
+    it('should allow matching addresses in nginx and deny the rest', () => {
+      expect(body(formatNginx(prefixes, context))).toEqual(['allow 3.5.140.0/22;', 'allow 2600:1f18::/36;', 'deny all;']);
+      expect(body(formatNginx(prefixes, withOptions('mode=deny')))).toEqual(['deny 3.5.140.0/22;', 'deny 2600:1f18::/36;']);
+    });
+
+    it('should build an nginx geo block', () => {
+      expect(body(formatNginxGeo(prefixes, withOptions('name=from-cloudfront')))).toEqual([
+        'geo $from_cloudfront {',
+        '    default 0;',
+        '    3.5.140.0/22 1;',
+        '    2600:1f18::/36 1;',
+        '}'
+      ]);
+    });
+
+    it('should list one CIDR per line for HAProxy', () => {
+      expect(body(formatHAProxy(prefixes, context))).toEqual(['3.5.140.0/22', '2600:1f18::/36']);
+    });
+
+    it('should build Apache Require blocks', () => {
+      expect(body(formatApache(prefixes, context))).toEqual([
+        '<RequireAny>',
+        '    Require ip 3.5.140.0/22',
+        '    Require ip 2600:1f18::/36',
+        '</RequireAny>'
+      ]);
+      expect(body(formatApache(prefixes, withOptions('mode=deny')))).toEqual([
+        '<RequireAll>',
+        '    Require all granted',
+        '    Require not ip 3.5.140.0/22',
+        '    Require not ip 2600:1f18::/36',
+        '</RequireAll>'
+      ]);
+    });
+
+    it('should build a Caddy remote_ip matcher', () => {
+      expect(body(formatCaddy(prefixes, context))).toEqual([
+        '@aws_ip_ranges {',
+        '\tremote_ip 3.5.140.0/22',
+        '\tremote_ip 2600:1f18::/36',
+        '}'
+      ]);
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => formatNginx(prefixes, withOptions('mode=block'))).toThrow(ExportOptionsError);
+    });
+  });
+
+  describe('Network device formats', () => {
+    const body = (lines: string[], marker = '#') => lines.filter((line) => !line.startsWith(marker));
+    const networks = { ipv4: ['3.5.140.0/22', '52.95.110.1/32'], ipv6: ['2600:1f18::/36'] };
+
+    it('should use netmasks in IOS object-groups', () => {
+      expect(body(formatCisco(context, networks), '!')).toEqual([
+        'object-group network aws-ip-ranges',
+        ' 3.5.140.0 255.255.252.0',
+        ' host 52.95.110.1',
+        'ip prefix-list aws-ip-ranges seq 5 permit 3.5.140.0/22',
+        'ip prefix-list aws-ip-ranges seq 10 permit 52.95.110.1/32',
+        'ipv6 prefix-list aws-ip-ranges seq 5 permit 2600:1f18::/36'
+      ]);
+    });
+
+    it('should use wildcard masks in NX-OS object-groups', () => {
+      const lines = formatCisco(withOptions('platform=nxos&name=AWS'), networks);
+
+      expect(lines).toContain('object-group ip address AWS');
+      expect(lines).toContain('  10 3.5.140.0 0.0.3.255');
+      expect(lines).toContain('  20 52.95.110.1 0.0.0.0');
+      expect(lines).toContain('object-group ipv6 address AWS');
+      expect(lines).toContain('  10 2600:1f18::/36');
+    });
+
+    it('should replace a Junos prefix-list', () => {
+      expect(body(formatJuniper(context, networks))).toEqual([
+        'delete policy-options prefix-list aws-ip-ranges',
+        'set policy-options prefix-list aws-ip-ranges 3.5.140.0/22',
+        'set policy-options prefix-list aws-ip-ranges 52.95.110.1/32',
+        'set policy-options prefix-list aws-ip-ranges 2600:1f18::/36'
+      ]);
+    });
+
+    it('should refill MikroTik address lists per family', () => {
+      const lines = body(formatMikroTik({ ...context, filters: { ...context.filters, includeIPv6: false } }, networks));
+
+      expect(lines).toEqual([
+        '/ip firewall address-list',
+        'remove [find list="aws-ip-ranges"]',
+        'add list="aws-ip-ranges" address=3.5.140.0/22',
+        'add list="aws-ip-ranges" address=52.95.110.1/32'
+      ]);
+    });
+
+    it('should write a pf table file', () => {
+      const lines = formatPf(withOptions('name=aws'), networks);
+
+      expect(lines).toContain('# In pf.conf: table <aws> persist file "/etc/pf.aws"');
+      expect(body(lines)).toEqual(['3.5.140.0/22', '52.95.110.1/32', '2600:1f18::/36']);
+      expect(() => formatPf(withOptions(`name=${'a'.repeat(32)}`), networks)).toThrow(ExportOptionsError);
+    });
+  });
+
+  describe('exportFilename', () => {
+    it('should name downloads after the syncToken', () => {
+      expect(exportFilename(context.version, 'csv')).toBe('aws-ip-ranges-1705314645.csv');
+      expect(exportFilename(context.version, 'ndjson')).toBe('aws-ip-ranges-1705314645.ndjson');
+      expect(exportFilename(context.version, 'iptables')).toBe('aws-ip-ranges-1705314645.rules');
+    });
+  });
+
+  describe('commentHeader', () => {
+    it('should mention exclusions, searches and aggregation when applied', () => {
+      const lines = commentHeader({
+        ...context,
+        filters: { ...context.filters, excludeServices: ['CLOUDFRONT'], searchTerm: '3.5.0.0/16', matchMode: 'within', includeIPv6: false },
+        aggregated: true
+      }, '//');
+      
+      expect(lines).toContain('// excludeServices: CLOUDFRONT');
+      expect(lines).toContain('// searchTerm: 3.5.0.0/16 (within)');
+      expect(lines).toContain('// families: IPv4');
+      expect(lines).toContain('// aggregated: yes');
+    });
+
+    it('should strip line breaks and control characters from query values', () => {
+      const lines = commentHeader({
+        ...context,
+        filters: { ...context.filters, searchTerm: '3.5.0.0/16\r\niptables -F\u0000' }
+      });
+
+      expect(lines).toContain('# searchTerm: 3.5.0.0/16iptables -F (text)');
+      expect(lines.every((line) => line.startsWith('# ') && !/[\r\n\u0000]/.test(line))).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { validateAWSIPRanges } from '../feed-validation';
+import { AWSIPRanges } from '@/types';
+
+const makeFeed = (ipv4: string[], ipv6: string[]): AWSIPRanges => ({
+  syncToken: '1700000000',
+  createDate: '2023-11-14-22-13-20',
+  prefixes: ipv4.map(ip_prefix => ({
+    ip_prefix,
+    region: 'us-east-1',
+    service: 'EC2',
+    network_border_group: 'us-east-1'
+  })),
+  ipv6_prefixes: ipv6.map(ipv6_prefix => ({
+    ipv6_prefix,
+    region: 'us-east-1',
+    service: 'EC2',
+    network_border_group: 'us-east-1'
+  }))
+});
+
+describe('Feed Validation Functions', () => {
+  describe('validateAWSIPRanges', () => {
+    it('should pass a clean feed through unchanged', () => {
+      const feed = makeFeed(['3.5.140.0/22'], ['2600:1f18::/36']);
+      const { data, report } = validateAWSIPRanges(feed);
+      
+      expect(data).toEqual(feed);
+      expect(report.total).toBe(2);
+      expect(report.issues).toEqual([]);
+    });
+
+    it('should normalize and report non-canonical prefixes', () => {
+      const { data, report } = validateAWSIPRanges(
+        makeFeed(['10.0.0.1/8'], ['2600:1F18:0:0::/36'])
+      );
+      
+      expect(data.prefixes[0].ip_prefix).toBe('10.0.0.0/8');
+      expect(data.ipv6_prefixes[0].ipv6_prefix).toBe('2600:1f18::/36');
+      expect(report.normalized).toBe(2);
+      expect(report.issues.map(issue => issue.kind)).toEqual(['host-bits', 'non-canonical']);
+    });
+
+    it('should drop and report invalid prefixes', () => {
+      const { data, report } = validateAWSIPRanges(
+        makeFeed(['3.5.140.0/22', '300.1.1.0/24', '2600:1f18::/36'], ['not-a-prefix'])
+      );
+      
+      expect(data.prefixes.map(p => p.ip_prefix)).toEqual(['3.5.140.0/22']);
+      expect(data.ipv6_prefixes).toEqual([]);
+      expect(report.dropped).toBe(3);
+      expect(report.issues.map(issue => issue.kind)).toEqual(['invalid', 'wrong-family', 'invalid']);
+      expect(report.issues[0].normalized).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { buildAtomFeed, buildRSSFeed, escapeXML, selectFeedEntries } from '../feeds';
+import { ChangeLogEntry } from '@/types';
+
+const makeEntry = (syncToken: string, createDate: string, added: [string, string, string][]): ChangeLogEntry => ({
+  from: { syncToken: String(Number(syncToken) - 1), createDate: '2024-01-01-00-00-00' },
+  to: { syncToken, createDate },
+  added: added.map(([prefix, service, region]) => ({
+    prefix,
+    region,
+    service,
+    network_border_group: region,
+    type: 'ipv4'
+  })),
+  removed: [],
+  changed: [],
+  summary: { added: added.length, removed: 0, changed: 0 },
+  detectedAt: '2024-01-02T00:05:00.000Z'
+});
+
+const entries = [
+  makeEntry('200', '2024-01-03-10-00-00', [['52.95.110.0/24', 'EC2', 'us-east-1']]),
+  makeEntry('100', '2024-01-02-10-00-00', [['13.224.0.0/14', 'CLOUDFRONT', 'eu-west-1']])
+];
+
+const options = {
+  baseUrl: 'https://example.com',
+  path: '/feeds/changes.atom',
+  filters: { regions: ['eu-west-1'], services: ['CLOUDFRONT'] }
+};
+
+describe('Feed Functions', () => {
+  describe('escapeXML', () => {
+    it('should escape XML special characters', () => {
+      expect(escapeXML(`<a href="x">&'`)).toBe('&lt;a href=&quot;x&quot;&gt;&amp;&apos;');
+    });
+  });
+
+  describe('selectFeedEntries', () => {
+    it('should drop publishes that do not touch the filters', () => {
+      const selected = selectFeedEntries(entries, options.filters);
+      
+      expect(selected.map(entry => entry.to.syncToken)).toEqual(['100']);
+    });
+
+    it('should keep every publish when unfiltered', () => {
+      expect(selectFeedEntries(entries, { regions: [], services: [] })).toHaveLength(2);
+    });
+  });
+
+  describe('buildAtomFeed', () => {
+    it('should render one entry per publish with a filtered self link', () => {
+      const feed = buildAtomFeed(selectFeedEntries(entries, options.filters), options);
+      
+      expect(feed).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(feed).toContain('href="https://example.com/feeds/changes.atom?regions=eu-west-1&amp;services=CLOUDFRONT"');
+      expect(feed.match(/<entry>/g)).toHaveLength(1);
+      expect(feed).toContain('<updated>2024-01-02T10:00:00.000Z</updated>');
+      expect(feed).toContain('13.224.0.0/14 CLOUDFRONT eu-west-1');
+    });
+  });
+
+  describe('buildRSSFeed', () => {
+    it('should render items with RFC 822 dates', () => {
+      const feed = buildRSSFeed(entries, { ...options, path: '/feeds/changes.rss', filters: { regions: [], services: [] } });
+      
+      expect(feed).toContain('<rss version="2.0"');
+      expect(feed.match(/<item>/g)).toHaveLength(2);
+      expect(feed).toContain('<pubDate>Wed, 03 Jan 2024 10:00:00 GMT</pubDate>');
+      expect(feed).toContain('<guid isPermaLink="false">ipmapaws-sync-200</guid>');
+    });
+  });
+});
\ No newline at end of file
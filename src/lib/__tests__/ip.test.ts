@@ -0,0 +1,147 @@
+import { parseIP, parseCIDR, normalizeCIDR, isPublicAddress, cidrContains, formatIP, formatCIDR, ipv4Netmask, ipv4Wildcard } from '../ip';
+
+describe('IP Functions', () => {
+  describe('parseIP', () => {
+    it('should parse IPv4 addresses', () => {
+      expect(parseIP('52.95.110.1')).toEqual({
+        type: 'ipv4',
+        bytes: [52, 95, 110, 1]
+      });
+    });
+
+    it('should parse compressed IPv6 addresses', () => {
+      const result = parseIP('2600:1f18::1');
+      expect(result?.type).toBe('ipv6');
+      expect(result?.bytes).toHaveLength(16);
+      expect(result?.bytes.slice(0, 4)).toEqual([0x26, 0x00, 0x1f, 0x18]);
+      expect(result?.bytes[15]).toBe(1);
+    });
+
+    it('should parse IPv6 addresses with an embedded IPv4 address', () => {
+      expect(parseIP('::ffff:192.0.2.1')?.bytes.slice(10)).toEqual([0xff, 0xff, 192, 0, 2, 1]);
+      expect(parseIP('64:ff9b::198.51.100.7')?.bytes.slice(12)).toEqual([198, 51, 100, 7]);
+      expect(parseIP('::ffff:192.0.2.256')).toBeNull();
+      expect(parseIP('1:2:3:4:5:6:7:1.2.3.4')).toBeNull();
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(parseIP('256.0.0.1')).toBeNull();
+      expect(parseIP('1.2.3')).toBeNull();
+      expect(parseIP('01.2.3.4')).toBeNull();
+      expect(parseIP('1::2::3')).toBeNull();
+      expect(parseIP('1:2:3:4:5:6:7:8:9')).toBeNull();
+      expect(parseIP('not-an-ip')).toBeNull();
+      expect(parseIP('')).toBeNull();
+    });
+  });
+
+  describe('parseCIDR', () => {
+    it('should parse IPv4 and IPv6 prefixes', () => {
+      expect(parseCIDR('52.95.110.0/24')?.prefixLength).toBe(24);
+      expect(parseCIDR('2600:1f18::/36')?.prefixLength).toBe(36);
+    });
+
+    it('should treat bare addresses as host prefixes only when allowed', () => {
+      expect(parseCIDR('52.95.110.1')).toBeNull();
+      expect(parseCIDR('52.95.110.1', true)?.prefixLength).toBe(32);
+      expect(parseCIDR('2600:1f18::1', true)?.prefixLength).toBe(128);
+    });
+
+    it('should reject out-of-range prefix lengths', () => {
+      expect(parseCIDR('10.0.0.0/33')).toBeNull();
+      expect(parseCIDR('2001:db8::/129')).toBeNull();
+      expect(parseCIDR('10.0.0.0/')).toBeNull();
+    });
+  });
+
+  describe('cidrContains', () => {
+    it('should detect addresses inside a prefix', () => {
+      const network = parseCIDR('52.95.110.0/24')!;
+      expect(cidrContains(network, parseCIDR('52.95.110.1', true)!)).toBe(true);
+      expect(cidrContains(network, parseCIDR('52.95.111.1', true)!)).toBe(false);
+    });
+
+    it('should not match across address families', () => {
+      const network = parseCIDR('0.0.0.0/0')!;
+      expect(cidrContains(network, parseCIDR('::1', true)!)).toBe(false);
+    });
+  });
+
+  describe('ipv4Netmask and ipv4Wildcard', () => {
+    it('should convert prefix lengths to masks', () => {
+      expect(ipv4Netmask(22)).toBe('255.255.252.0');
+      expect(ipv4Netmask(32)).toBe('255.255.255.255');
+      expect(ipv4Netmask(0)).toBe('0.0.0.0');
+      expect(ipv4Wildcard(22)).toBe('0.0.3.255');
+      expect(ipv4Wildcard(27)).toBe('0.0.0.31');
+      expect(ipv4Wildcard(32)).toBe('0.0.0.0');
+    });
+  });
+
+  describe('formatIP', () => {
+    it('should compress the longest run of zero groups', () => {
+      expect(formatIP(parseIP('2001:db8:0:0:1:0:0:1')!)).toBe('2001:db8::1:0:0:1');
+      expect(formatIP(parseIP('0:0:0:0:0:0:0:0')!)).toBe('::');
+    });
+
+    it('should round-trip CIDR notation', () => {
+      expect(formatCIDR(parseCIDR('2600:1f18::/36')!)).toBe('2600:1f18::/36');
+      expect(formatCIDR(parseCIDR('3.5.0.0/16')!)).toBe('3.5.0.0/16');
+    });
+
+    it('should write IPv4-mapped addresses in mixed notation', () => {
+      expect(formatIP(parseIP('0:0:0:0:0:ffff:c000:201')!)).toBe('::ffff:192.0.2.1');
+    });
+  });
+
+  describe('isPublicAddress', () => {
+    it('should accept public addresses', () => {
+      expect(isPublicAddress(parseIP('52.95.110.1')!)).toBe(true);
+      expect(isPublicAddress(parseIP('2600:1f18::1')!)).toBe(true);
+    });
+
+    it('should reject loopback, private and link-local addresses', () => {
+      ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0'].forEach((address) => {
+        expect(isPublicAddress(parseIP(address)!)).toBe(false);
+      });
+      ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1'].forEach((address) => {
+        expect(isPublicAddress(parseIP(address)!)).toBe(false);
+      });
+    });
+  });
+
+  describe('normalizeCIDR', () => {
+    it('should accept canonical prefixes as-is', () => {
+      expect(normalizeCIDR('2600:1f18::/36')).toEqual({
+        type: 'ipv6',
+        cidr: '2600:1f18::/36',
+        hostBitsSet: false,
+        canonical: true
+      });
+      expect(normalizeCIDR('3.5.140.0/22')?.canonical).toBe(true);
+    });
+
+    it('should rewrite non-canonical IPv6 forms', () => {
+      const result = normalizeCIDR('2600:1F18:0000:0:0:0:0:0/36');
+      expect(result?.cidr).toBe('2600:1f18::/36');
+      expect(result?.canonical).toBe(false);
+      expect(result?.hostBitsSet).toBe(false);
+    });
+
+    it('should clear and flag host bits', () => {
+      expect(normalizeCIDR('10.0.0.1/8')).toEqual({
+        type: 'ipv4',
+        cidr: '10.0.0.0/8',
+        hostBitsSet: true,
+        canonical: false
+      });
+      expect(normalizeCIDR('2600:1f18:4fff::/36')?.cidr).toBe('2600:1f18:4000::/36');
+    });
+
+    it('should reject invalid prefixes', () => {
+      expect(normalizeCIDR('2600:1f18::')).toBeNull();
+      expect(normalizeCIDR('2600:1f18::/129')).toBeNull();
+      expect(normalizeCIDR('not-a-cidr')).toBeNull();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,210 @@
+import {
+  buildPrefixIndex,
+  getPrefixIndex,
+  findContaining,
+  findLongestMatch,
+  findOverlapping,
+  findWithin,
+  filterIndexedPrefixes,
+  lookupPrefixes,
+  classifyAddresses,
+  MAX_CLASSIFY_MATCHES
+} from '../prefix-index';
+import { parseCIDR } from '../ip';
+import { AWSIPRanges, CombinedPrefix } from '@/types';
+
+const testPrefixes: CombinedPrefix[] = [
+  {
+    prefix: '52.94.0.0/16',
+    region: 'us-east-1',
+    service: 'AMAZON',
+    network_border_group: 'us-east-1',
+    type: 'ipv4'
+  },
+  {
+    prefix: '52.95.110.0/24',
+    region: 'us-east-1',
+    service: 'EC2',
+    network_border_group: 'us-east-1',
+    type: 'ipv4'
+  },
+  {
+    prefix: '52.95.0.0/16',
+    region: 'us-east-1',
+    service: 'AMAZON',
+    network_border_group: 'us-east-1',
+    type: 'ipv4'
+  },
+  {
+    prefix: '52.95.110.0/24',
+    region: 'us-east-1',
+    service: 'AMAZON',
+    network_border_group: 'us-east-1',
+    type: 'ipv4'
+  },
+  {
+    prefix: '2600:1f18::/36',
+    region: 'us-east-1',
+    service: 'EC2',
+    network_border_group: 'us-east-1',
+    type: 'ipv6'
+  }
+];
+
+const index = buildPrefixIndex(testPrefixes, 'test-token');
+
+describe('Prefix Index', () => {
+  describe('findContaining', () => {
+    it('should return every containing prefix, most specific first', () => {
+      const result = findContaining(index, parseCIDR('52.95.110.1', true)!);
+      
+      expect(result.map(p => p.prefix)).toEqual(['52.95.110.0/24', '52.95.110.0/24', '52.95.0.0/16']);
+    });
+
+    it('should include a prefix equal to the query', () => {
+      const result = findContaining(index, parseCIDR('52.94.0.0/16')!);
+      
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('findLongestMatch', () => {
+    it('should return only the most specific entries', () => {
+      const result = findLongestMatch(index, parseCIDR('52.95.110.1', true)!);
+      
+      expect(result.map(p => p.service).sort()).toEqual(['AMAZON', 'EC2']);
+      expect(result.every(p => p.prefix === '52.95.110.0/24')).toBe(true);
+    });
+
+    it('should return nothing outside the index', () => {
+      expect(findLongestMatch(index, parseCIDR('8.8.8.8', true)!)).toHaveLength(0);
+    });
+  });
+
+  describe('findOverlapping', () => {
+    it('should include prefixes inside the query', () => {
+      const result = findOverlapping(index, parseCIDR('52.0.0.0/8')!);
+      
+      expect(result).toHaveLength(4);
+      expect(result[0].prefix).toBe('52.95.110.0/24');
+    });
+
+    it('should include prefixes containing the query', () => {
+      const result = findOverlapping(index, parseCIDR('52.95.110.128/25')!);
+      
+      expect(result.map(p => p.prefix)).toEqual(['52.95.110.0/24', '52.95.110.0/24', '52.95.0.0/16']);
+    });
+  });
+
+  describe('findWithin', () => {
+    it('should return only prefixes inside the query', () => {
+      const result = findWithin(index, parseCIDR('52.95.0.0/16')!);
+      
+      expect(result.map(p => p.prefix)).toEqual(['52.95.110.0/24', '52.95.110.0/24', '52.95.0.0/16']);
+    });
+
+    it('should ignore prefixes containing the query', () => {
+      expect(findWithin(index, parseCIDR('52.95.110.128/25')!)).toHaveLength(0);
+    });
+  });
+
+  describe('filterIndexedPrefixes', () => {
+    it('should match IP search terms through the trie in index order', () => {
+      const result = filterIndexedPrefixes(index, { searchTerm: '52.95.110.1', matchMode: 'contains' });
+      
+      expect(result).toEqual([testPrefixes[1], testPrefixes[2], testPrefixes[3]]);
+    });
+
+    it('should honour the within match mode', () => {
+      const result = filterIndexedPrefixes(index, { searchTerm: '52.95.110.0/23', matchMode: 'within' });
+      
+      expect(result.map(p => p.service)).toEqual(['EC2', 'AMAZON']);
+    });
+
+    it('should apply the remaining filters to trie matches', () => {
+      const result = filterIndexedPrefixes(index, { searchTerm: '52.0.0.0/8', services: ['EC2'] });
+      
+      expect(result).toEqual([testPrefixes[1]]);
+    });
+
+    it('should fall back to text matching for other search terms', () => {
+      const result = filterIndexedPrefixes(index, { searchTerm: 'ec2' });
+      
+      expect(result).toEqual([testPrefixes[1], testPrefixes[4]]);
+    });
+  });
+
+  describe('getPrefixIndex', () => {
+    const data: AWSIPRanges = {
+      syncToken: 'token-1',
+      createDate: '2024-01-01-00-00-00',
+      prefixes: [
+        {
+          ip_prefix: '52.95.110.0/24',
+          region: 'us-east-1',
+          service: 'EC2',
+          network_border_group: 'us-east-1'
+        }
+      ],
+      ipv6_prefixes: []
+    };
+
+    it('should reuse the index for the same syncToken', () => {
+      expect(getPrefixIndex(data)).toBe(getPrefixIndex({ ...data }));
+    });
+
+    it('should rebuild the index when the syncToken changes', () => {
+      const next = getPrefixIndex({ ...data, syncToken: 'token-2' });
+      
+      expect(next).not.toBe(getPrefixIndex(data));
+      expect(next.syncToken).toBe('token-2');
+      expect(next.prefixes).toHaveLength(1);
+    });
+  });
+
+  describe('lookupPrefixes', () => {
+    it('should look up IPv4 and IPv6 addresses', () => {
+      expect(lookupPrefixes(index, '52.95.110.1')).toHaveLength(3);
+      expect(lookupPrefixes(index, '2600:1f18:abc::1')[0].service).toBe('EC2');
+    });
+
+    it('should return nothing for non-AWS or invalid addresses', () => {
+      expect(lookupPrefixes(index, '8.8.8.8')).toHaveLength(0);
+      expect(lookupPrefixes(index, 'not-an-ip')).toHaveLength(0);
+    });
+  });
+
+  describe('classifyAddresses', () => {
+    it('should classify each input in order', () => {
+      const result = classifyAddresses(index, ['52.95.110.1', '8.8.8.8', 'bogus']);
+      
+      expect(result.map(r => r.status)).toEqual(['aws', 'not-aws', 'invalid']);
+      expect(result[0].matches[2].prefix).toBe('52.95.0.0/16');
+      expect(result[2].isAWS).toBe(false);
+    });
+
+    it('should match CIDRs that contain or are contained by a prefix', () => {
+      const [wide, narrow] = classifyAddresses(index, ['52.0.0.0/8', '52.95.110.128/25']);
+      
+      expect(wide.matches).toHaveLength(4);
+      expect(wide.truncated).toBeUndefined();
+      expect(narrow.matches[0].prefix).toBe('52.95.110.0/24');
+    });
+
+    it('should cap the matches for a wide input and flag it as truncated', () => {
+      const manyPrefixes = Array.from({ length: 150 }, (_, i): CombinedPrefix => ({
+        prefix: `10.0.${i}.0/24`,
+        region: 'us-east-1',
+        service: 'EC2',
+        network_border_group: 'us-east-1',
+        type: 'ipv4'
+      }));
+      const [everything, one] = classifyAddresses(buildPrefixIndex(manyPrefixes, 'wide-token'), ['0.0.0.0/0', '10.0.7.1']);
+
+      expect(everything.matches).toHaveLength(MAX_CLASSIFY_MATCHES);
+      expect(everything.truncated).toBe(true);
+      expect(one.matches).toHaveLength(1);
+      expect(one.truncated).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { createSign, generateKeyPairSync } from 'crypto';
+import { AWS_IP_SPACE_TOPIC_ARN, SNSMessage, buildStringToSign, isSNSURL, parseSNSMessage, verifySNSMessage } from '../sns';
+
+// Local stand-in for the SNS signing certificate
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const certificate = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+const fetchCertificate = jest.fn(async () => certificate);
+
+const CERT_URL = 'https://sns.us-east-1.amazonaws.com/SimpleNotificationService-0000000000000000000000.pem';
+
+const sign = (message: SNSMessage): SNSMessage => {
+  const signer = createSign(message.SignatureVersion === '1' ? 'RSA-SHA1' : 'RSA-SHA256');
+  signer.update(buildStringToSign(message));
+  return { ...message, Signature: signer.sign(privateKey, 'base64') };
+};
+
+const notification = (overrides: Partial<SNSMessage> = {}): SNSMessage => sign({
+  Type: 'Notification',
+  MessageId: 'b5b7f6a2-0000-4000-8000-000000000000',
+  TopicArn: AWS_IP_SPACE_TOPIC_ARN,
+  Subject: '[Notification] AmazonIpSpaceChanged',
+  Message: '{"create-time":"2024-01-16-10-30-45","synctoken":"1705401045","md5":"abc","url":"https://ip-ranges.amazonaws.com/ip-ranges.json"}',
+  Timestamp: new Date().toISOString(),
+  SignatureVersion: '1',
+  Signature: '',
+  SigningCertURL: CERT_URL,
+  ...overrides,
+});
+
+describe('SNS Functions', () => {
+  describe('parseSNSMessage', () => {
+    it('should parse SNS message bodies', () => {
+      const message = notification();
+
+      expect(parseSNSMessage(JSON.stringify(message))).toEqual(message);
+    });
+
+    it('should reject bodies that are not SNS messages', () => {
+      expect(parseSNSMessage('not json')).toBeNull();
+      expect(parseSNSMessage('{"Type":"Notification"}')).toBeNull();
+      expect(parseSNSMessage(JSON.stringify({ ...notification(), Type: 'Other' }))).toBeNull();
+    });
+  });
+
+  describe('buildStringToSign', () => {
+    it('should list notification fields in signing order', () => {
+      const message = notification();
+
+      expect(buildStringToSign(message)).toBe(
+        `Message\n${message.Message}\nMessageId\n${message.MessageId}\nSubject\n${message.Subject}\n` +
+        `Timestamp\n${message.Timestamp}\nTopicArn\n${message.TopicArn}\nType\nNotification\n`
+      );
+    });
+
+    it('should use the confirmation fields for subscription confirmations', () => {
+      const message = notification({ Type: 'SubscriptionConfirmation', Subject: undefined, Token: 'tok', SubscribeURL: 'https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription' });
+
+      expect(buildStringToSign(message)).toContain('SubscribeURL\nhttps://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription\nTimestamp');
+      expect(buildStringToSign(message)).toContain('Token\ntok\nTopicArn');
+    });
+  });
+
+  describe('isSNSURL', () => {
+    it('should only accept HTTPS SNS endpoints', () => {
+      expect(isSNSURL(CERT_URL)).toBe(true);
+      expect(isSNSURL('https://sns.cn-north-1.amazonaws.com.cn/cert.pem')).toBe(true);
+      expect(isSNSURL('http://sns.us-east-1.amazonaws.com/cert.pem')).toBe(false);
+      expect(isSNSURL('https://sns.us-east-1.amazonaws.com.evil.com/cert.pem')).toBe(false);
+      expect(isSNSURL('https://example.com/cert.pem')).toBe(false);
+      expect(isSNSURL(undefined)).toBe(false);
+    });
+  });
+
+  describe('verifySNSMessage', () => {
+    it('should accept messages signed with SignatureVersion 1 and 2', async () => {
+      expect(await verifySNSMessage(notification(), { fetchCertificate })).toBeNull();
+      expect(await verifySNSMessage(notification({ SignatureVersion: '2' }), { fetchCertificate })).toBeNull();
+      expect(fetchCertificate).toHaveBeenCalledWith(CERT_URL);
+    });
+
+    it('should reject tampered messages', async () => {
+      const message = { ...notification(), Message: '{"synctoken":"1"}' };
+
+      expect(await verifySNSMessage(message, { fetchCertificate })).toBe('Signature does not match');
+    });
+
+    it('should reject messages for other topics', async () => {
+      const message = notification({ TopicArn: 'arn:aws:sns:us-east-1:123456789012:Other' });
+
+      expect(await verifySNSMessage(message, { fetchCertificate })).toMatch(/Unexpected topic/);
+    });
+
+    it('should reject stale or invalid timestamps', async () => {
+      const stale = notification({ Timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() });
+
+      expect(await verifySNSMessage(stale, { fetchCertificate })).toMatch(/outside the accepted window/);
+      expect(await verifySNSMessage(notification({ Timestamp: 'yesterday' }), { fetchCertificate })).toMatch(/outside the accepted window/);
+    });
+
+    it('should reject certificates outside SNS', async () => {
+      const message = notification({ SigningCertURL: 'https://example.com/cert.pem' });
+
+      expect(await verifySNSMessage(message, { fetchCertificate })).toMatch(/not an SNS endpoint/);
+    });
+
+    it('should reject a signature from another key', async () => {
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+      expect(await verifySNSMessage(notification(), { fetchCertificate: async () => other })).toBe('Signature does not match');
+    });
+  });
+});
\ No newline at end of file
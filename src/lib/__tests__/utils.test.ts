@@ -1,6 +1,7 @@
 import { 
   formatNumber, 
   formatDate, 
+  parseAWSCreateDate,
   isValidCIDR, 
   truncateText, 
   generateId, 
@@ -39,6 +40,17 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('parseAWSCreateDate', () => {
+    it('should parse AWS createDate values as UTC', () => {
+      expect(parseAWSCreateDate('2024-01-15-10-30-45')?.toISOString()).toBe('2024-01-15T10:30:45.000Z');
+    });
+
+    it('should return null for other formats', () => {
+      expect(parseAWSCreateDate('2024-01-15T10:30:45Z')).toBeNull();
+      expect(parseAWSCreateDate('2024-13-45-99-00-00')).toBeNull();
+    });
+  });
+
   describe('isValidCIDR', () => {
     it('should validate IPv4 CIDR notation', () => {
       expect(isValidCIDR('192.168.1.0/24')).toBe(true);
@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import {
+  buildWebhookPayload,
+  decryptSecret,
+  deliverWebhook,
+  encryptSecret,
+  signPayload,
+  validateWebhookURL,
+  verifySignature,
+  WebhookURLError,
+} from '../webhook-delivery';
+import { IPRangesDiff, WebhookSubscription } from '@/types';
+
+const diff: IPRangesDiff = {
+  from: { syncToken: '100', createDate: '2024-01-01-00-00-00' },
+  to: { syncToken: '200', createDate: '2024-01-02-00-00-00' },
+  added: [
+    { prefix: '13.224.0.0/14', region: 'eu-west-1', service: 'CLOUDFRONT', network_border_group: 'eu-west-1', type: 'ipv4' },
+    { prefix: '2600:9000::/28', region: 'eu-west-1', service: 'CLOUDFRONT', network_border_group: 'eu-west-1', type: 'ipv6' },
+  ],
+  removed: [
+    { prefix: '52.95.110.0/24', region: 'us-east-1', service: 'EC2', network_border_group: 'us-east-1', type: 'ipv4' },
+  ],
+  changed: [],
+  summary: { added: 2, removed: 1, changed: 0 },
+};
+
+const makeSubscription = (url: string, overrides: Partial<WebhookSubscription['filters']> = {}): WebhookSubscription => ({
+  id: 'hook-1',
+  url,
+  secret: 'test-secret',
+  ownerTokenHash: '',
+  clientHash: '',
+  filters: { regions: [], services: [], includeIPv4: true, includeIPv6: true, ...overrides },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  deliveries: [],
+});
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook Delivery', () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let statuses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() || 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('signPayload', () => {
+    it('should produce a verifiable HMAC-SHA256 signature', () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = signPayload('secret', timestamp, '{"a":1}');
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifySignature('secret', timestamp, '{"a":1}', signature)).toBe(true);
+      expect(verifySignature('other', timestamp, '{"a":1}', signature)).toBe(false);
+      expect(verifySignature('secret', timestamp, '{"a":2}', signature)).toBe(false);
+      expect(verifySignature('secret', timestamp + 1, '{"a":1}', signature)).toBe(false);
+    });
+
+    it('should reject stale timestamps', () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 600;
+      const signature = signPayload('secret', timestamp, '{"a":1}');
+
+      expect(verifySignature('secret', timestamp, '{"a":1}', signature)).toBe(false);
+      expect(verifySignature('secret', timestamp, '{"a":1}', signature, timestamp * 1000)).toBe(true);
+    });
+  });
+
+  describe('encryptSecret', () => {
+    it('should round-trip through decryptSecret', () => {
+      const key = randomBytes(32);
+      const encrypted = encryptSecret('test-secret', key);
+
+      expect(encrypted).not.toContain('test-secret');
+      expect(decryptSecret(encrypted, key)).toBe('test-secret');
+    });
+
+    it('should fail with the wrong key', () => {
+      const encrypted = encryptSecret('test-secret', randomBytes(32));
+
+      expect(() => decryptSecret(encrypted, randomBytes(32))).toThrow();
+    });
+  });
+
+  describe('validateWebhookURL', () => {
+    it('should accept public http(s) URLs', async () => {
+      await expect(validateWebhookURL('https://52.95.110.1/hook', false)).resolves.toBeInstanceOf(URL);
+    });
+
+    it('should reject loopback, private and link-local targets', async () => {
+      const targets = ['http://127.0.0.1/hook', 'http://10.0.0.5/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]:8080/', 'http://localhost/'];
+      for (const target of targets) {
+        await expect(validateWebhookURL(target, false)).rejects.toBeInstanceOf(WebhookURLError);
+      }
+    });
+
+    it('should reject other protocols and invalid URLs', async () => {
+      await expect(validateWebhookURL('ftp://52.95.110.1/', false)).rejects.toThrow('http(s)');
+      await expect(validateWebhookURL('not a url', false)).rejects.toThrow('http(s)');
+    });
+
+    it('should allow private targets when asked', async () => {
+      await expect(validateWebhookURL('http://127.0.0.1/hook', true)).resolves.toBeInstanceOf(URL);
+    });
+  });
+
+  describe('buildWebhookPayload', () => {
+    it('should only include changes matching the filters', () => {
+      const payload = buildWebhookPayload(makeSubscription(url, { services: ['CLOUDFRONT'], includeIPv6: false }), diff);
+
+      expect(payload?.event).toBe('ip-ranges.changed');
+      expect(payload?.diff.added.map((entry) => entry.prefix)).toEqual(['13.224.0.0/14']);
+      expect(payload?.diff.summary).toEqual({ added: 1, removed: 0, changed: 0 });
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(buildWebhookPayload(makeSubscription(url, { regions: ['ap-south-1'] }), diff)).toBeNull();
+    });
+  });
+
+  describe('deliverWebhook', () => {
+    it('should POST a signed payload to the receiver', async () => {
+      const subscription = makeSubscription(url);
+      const payload = buildWebhookPayload(subscription, diff)!;
+
+      const delivery = await deliverWebhook(subscription, payload, { retryDelays: [] });
+
+      expect(delivery.success).toBe(true);
+      expect(delivery.syncToken).toBe('200');
+      expect(received).toHaveLength(1);
+      expect(received[0].headers['x-ipmapaws-delivery']).toBe(payload.id);
+      const timestamp = Number(received[0].headers['x-ipmapaws-timestamp']);
+      expect(verifySignature('test-secret', timestamp, received[0].body, received[0].headers['x-ipmapaws-signature'] as string)).toBe(true);
+      expect(JSON.parse(received[0].body).diff.summary).toEqual({ added: 2, removed: 1, changed: 0 });
+    });
+
+    it('should retry server errors until the receiver accepts', async () => {
+      statuses = [500, 503, 200];
+      const subscription = makeSubscription(url);
+
+      const delivery = await deliverWebhook(subscription, buildWebhookPayload(subscription, diff)!, { retryDelays: [1, 1, 1] });
+
+      expect(delivery.success).toBe(true);
+      expect(delivery.attempts.map((attempt) => attempt.status)).toEqual([500, 503, 200]);
+      expect(received).toHaveLength(3);
+    });
+
+    it('should give up after the last retry', async () => {
+      statuses = [500, 500, 500];
+      const subscription = makeSubscription(url);
+
+      const delivery = await deliverWebhook(subscription, buildWebhookPayload(subscription, diff)!, { retryDelays: [1, 1] });
+
+      expect(delivery.success).toBe(false);
+      expect(delivery.attempts).toHaveLength(3);
+    });
+
+    it('should not retry client errors', async () => {
+      statuses = [410];
+      const subscription = makeSubscription(url);
+
+      const delivery = await deliverWebhook(subscription, buildWebhookPayload(subscription, diff)!, { retryDelays: [1, 1] });
+
+      expect(delivery.success).toBe(false);
+      expect(delivery.attempts).toHaveLength(1);
+    });
+
+    it('should record network errors', async () => {
+      const subscription = makeSubscription('http://127.0.0.1:1/hook');
+
+      const delivery = await deliverWebhook(subscription, buildWebhookPayload(subscription, diff)!, { retryDelays: [1] });
+
+      expect(delivery.success).toBe(false);
+      expect(delivery.attempts).toHaveLength(2);
+      expect(delivery.attempts[0].status).toBeUndefined();
+      expect(delivery.attempts[0].error).toBeTruthy();
+    });
+  });
+});
\ No newline at end of file
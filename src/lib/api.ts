@@ -1,4 +1,6 @@
-import { AWSIPRanges, CombinedPrefix, IPRangeError } from '@/types';
+import { AWSIPRanges, CombinedPrefix, IPRangeError, MatchMode } from '@/types';
+import { ParsedCIDR, parseCIDR, cidrContains, compareParsedCIDRs } from '@/lib/ip';
+import { subtractPrefixes } from '@/lib/cidr-set';
 
 // Use our internal API route to avoid CORS issues
 const getAPIURL = () => {
@@ -118,18 +120,61 @@ export function extractServices(data: AWSIPRanges): string[] {
   return Array.from(services).sort();
 }
 
+const MATCH_MODES: MatchMode[] = ['text', 'contains', 'within', 'overlaps'];
+
+/**
+ * Parses a matchMode query parameter, defaulting to structural overlap matching
+ */
+export function parseMatchMode(value: string | null | undefined): MatchMode {
+  return MATCH_MODES.indexOf(value as MatchMode) !== -1 ? (value as MatchMode) : 'overlaps';
+}
+
+export interface PrefixFilters {
+  regions?: string[];
+  services?: string[];
+  searchTerm?: string;
+  matchMode?: MatchMode;
+  includeIPv4?: boolean;
+  includeIPv6?: boolean;
+}
+
 /**
- * Optimized filter function for better search performance
+ * The IP or CIDR a search term names, or null when it is matched as text
+ */
+export function parseSearchNetwork(filters: PrefixFilters): ParsedCIDR | null {
+  const searchTerm = filters.searchTerm?.trim().toLowerCase();
+  const matchMode = filters.matchMode || 'overlaps';
+  return searchTerm && matchMode !== 'text' ? parseCIDR(searchTerm, true) : null;
+}
+
+/**
+ * Checks a prefix against an IP/CIDR query using the given match mode
+ */
+function matchesNetwork(prefix: CombinedPrefix, query: ParsedCIDR, matchMode: MatchMode): boolean {
+  const network = parseCIDR(prefix.prefix);
+  if (!network) return false;
+
+  const containsQuery = cidrContains(network, query);
+  const withinQuery = cidrContains(query, network);
+
+  switch (matchMode) {
+    case 'contains':
+      return containsQuery;
+    case 'within':
+      return withinQuery;
+    default:
+      return containsQuery || withinQuery;
+  }
+}
+
+/**
+ * Optimized filter function for better search performance.
+ * When the search term is an IP or CIDR (and matchMode isn't "text"), prefixes
+ * are matched structurally instead of by substring.
  */
 export function filterPrefixes(
   prefixes: CombinedPrefix[],
-  filters: {
-    regions?: string[];
-    services?: string[];
-    searchTerm?: string;
-    includeIPv4?: boolean;
-    includeIPv6?: boolean;
-  }
+  filters: PrefixFilters
 ): CombinedPrefix[] {
   // Pre-process filters for better performance
   const includeIPv4 = filters.includeIPv4 !== false;
@@ -137,6 +182,8 @@ export function filterPrefixes(
   const regionSet = filters.regions && filters.regions.length > 0 ? new Set(filters.regions) : null;
   const serviceSet = filters.services && filters.services.length > 0 ? new Set(filters.services) : null;
   const searchTerm = filters.searchTerm?.trim().toLowerCase();
+  const matchMode = filters.matchMode || 'overlaps';
+  const searchNetwork = parseSearchNetwork(filters);
   
   return prefixes.filter((prefix) => {
     // Fast IP type check
@@ -149,8 +196,10 @@ export function filterPrefixes(
     // Fast service check using Set
     if (serviceSet && !serviceSet.has(prefix.service)) return false;
 
-    // Optimized search term check
-    if (searchTerm) {
+    // Structural IP/CIDR check
+    if (searchNetwork) {
+      if (!matchesNetwork(prefix, searchNetwork, matchMode)) return false;
+    } else if (searchTerm) {
       // Use a single concatenated string for faster searching
       const searchableText = `${prefix.prefix} ${prefix.region} ${prefix.service} ${prefix.network_border_group}`.toLowerCase();
       if (!searchableText.includes(searchTerm)) return false;
@@ -161,13 +210,42 @@ export function filterPrefixes(
 }
 
 /**
- * Sorts combined prefixes by a given field and direction
+ * Removes every address belonging to the excluded services from the filtered
+ * prefixes. This is true address-space subtraction (e.g. "AMAZON minus EC2"),
+ * so the result is the CIDR blocks that remain rather than a subset of rows.
+ */
+export function excludeServiceAddresses(
+  filtered: CombinedPrefix[],
+  allPrefixes: CombinedPrefix[],
+  excludeServices: string[]
+): CombinedPrefix[] {
+  if (excludeServices.length === 0) return filtered;
+
+  const excludeSet = new Set(excludeServices);
+  const excluded = allPrefixes.filter((prefix) => excludeSet.has(prefix.service));
+  return subtractPrefixes(filtered, excluded);
+}
+
+/**
+ * Sorts combined prefixes by a given field and direction.
+ * Prefixes sort numerically by network address, IPv4 before IPv6.
  */
 export function sortPrefixes(
   prefixes: CombinedPrefix[],
   field: 'prefix' | 'region' | 'service' | 'network_border_group',
   direction: 'asc' | 'desc' = 'asc'
 ): CombinedPrefix[] {
+  if (field === 'prefix') {
+    // Parse each prefix once instead of on every comparison
+    const keyed = prefixes.map((prefix) => ({ prefix, network: parseCIDR(prefix.prefix) }));
+    keyed.sort((a, b) => {
+      const comparison =
+        compareParsedCIDRs(a.network, b.network) || a.prefix.prefix.localeCompare(b.prefix.prefix);
+      return direction === 'asc' ? comparison : -comparison;
+    });
+    return keyed.map((entry) => entry.prefix);
+  }
+
   return [...prefixes].sort((a, b) => {
     const aValue = a[field];
     const bValue = b[field];
@@ -1,12 +1,23 @@
 import { getCachedDataWithVersion, setCachedData } from './cache';
-import type { AWSIPRanges } from '@/types';
+import { validateAWSIPRanges } from './feed-validation';
+import { diffAWSIPRanges } from './diff';
+import { appendChangeLog } from './change-log';
+import { getPreviousSnapshot, getSnapshotVersions } from './snapshots';
+import { notifyWebhooks } from './webhooks';
+import type { AWSIPRanges, FeedValidationReport, IPRangesDiff, SyncStatus } from '@/types';
 
 const AWS_IP_RANGES_URL = 'https://ip-ranges.amazonaws.com/ip-ranges.json';
 const CHECK_INTERVAL = 60 * 60 * 1000; // Check every hour
 const FORCE_REFRESH_INTERVAL = 24 * 60 * 60 * 1000; // Force refresh every 24 hours
 
 let syncInterval: NodeJS.Timeout | null = null;
-let isRunning = false;
+// The sync in progress, and the one queued to run after it
+let activeSync: Promise<void> | null = null;
+let queuedSync: Promise<void> | null = null;
+let lastValidationReport: FeedValidationReport | null = null;
+
+// How many individual feed issues to print per sync; the full list is kept in the report
+const MAX_LOGGED_ISSUES = 20;
 
 /**
  * Fetch fresh data from AWS
@@ -38,18 +49,69 @@ async function fetchAWSIPRanges(): Promise<AWSIPRanges> {
 
     console.log(`[BackgroundSync] Successfully fetched ${data.prefixes.length + data.ipv6_prefixes.length} IP prefixes`);
     console.log(`[BackgroundSync] AWS createDate: ${data.createDate}, syncToken: ${data.syncToken}`);
+
+    // Validate every prefix and rewrite it to canonical form before it reaches the cache
+    const { data: normalizedData, report } = validateAWSIPRanges(data);
+    lastValidationReport = report;
+    reportFeedIssues(report);
     
-    return data;
+    return normalizedData;
   } catch (error) {
     console.error('[BackgroundSync] Failed to fetch AWS IP ranges:', error);
     throw error;
   }
 }
 
+/**
+ * Logs problems found in the upstream feed
+ */
+function reportFeedIssues(report: FeedValidationReport): void {
+  if (report.issues.length === 0) {
+    console.log(`[BackgroundSync] All ${report.total} prefixes are valid and canonical`);
+    return;
+  }
+
+  console.warn(
+    `[BackgroundSync] Feed ${report.syncToken} has ${report.issues.length} problem prefixes: ` +
+    `${report.normalized} normalized, ${report.dropped} dropped`
+  );
+  report.issues.slice(0, MAX_LOGGED_ISSUES).forEach((issue) => {
+    const action = issue.normalized ? `normalized to ${issue.normalized}` : 'dropped';
+    console.warn(`[BackgroundSync]   ${issue.kind}: ${issue.field} "${issue.value}" (${issue.region}, ${issue.service}) ${action}`);
+  });
+  if (report.issues.length > MAX_LOGGED_ISSUES) {
+    console.warn(`[BackgroundSync]   ...and ${report.issues.length - MAX_LOGGED_ISSUES} more`);
+  }
+}
+
+/**
+ * Diffs new data against the newest stored version before it. Snapshots outlive
+ * the 24 hour cache, so a publish is still diffed after the cache has expired.
+ * Returns undefined when this version is already stored (and so already announced).
+ */
+async function diffAgainstPrevious(
+  remoteData: AWSIPRanges,
+  cachedData: AWSIPRanges | null
+): Promise<IPRangesDiff | undefined> {
+  const versions = await getSnapshotVersions();
+  if (versions.some((version) => version.syncToken === remoteData.syncToken)) {
+    return undefined;
+  }
+
+  // Fall back to the cache when no history has been stored yet
+  const previous = (await getPreviousSnapshot(remoteData)) || cachedData;
+  return previous ? diffAWSIPRanges(previous, remoteData) : undefined;
+}
+
 /**
  * Check if we need to update based on AWS createDate
  */
-async function shouldUpdate(): Promise<{ needsUpdate: boolean; reason: string; remoteData?: AWSIPRanges }> {
+async function shouldUpdate(): Promise<{
+  needsUpdate: boolean;
+  reason: string;
+  remoteData?: AWSIPRanges;
+  diff?: IPRangesDiff;
+}> {
   try {
     // Get current cached data
     const cached = await getCachedDataWithVersion();
@@ -61,7 +123,8 @@ async function shouldUpdate(): Promise<{ needsUpdate: boolean; reason: string; r
         return { 
           needsUpdate: true, 
           reason: 'No cached data found',
-          remoteData 
+          remoteData,
+          diff: await diffAgainstPrevious(remoteData, null),
         };
       } catch (error) {
         console.error('[BackgroundSync] Failed to fetch initial data:', error);
@@ -93,7 +156,9 @@ async function shouldUpdate(): Promise<{ needsUpdate: boolean; reason: string; r
       return { 
         needsUpdate: true, 
         reason: `AWS data updated (${createDateChanged ? 'createDate' : 'syncToken'} changed)`,
-        remoteData 
+        remoteData,
+        // Keep what actually changed, not just that something did
+        diff: await diffAgainstPrevious(remoteData, cached.data),
       };
     }
 
@@ -123,31 +188,58 @@ async function shouldUpdate(): Promise<{ needsUpdate: boolean; reason: string; r
 }
 
 /**
- * Perform the background sync check
+ * Perform the background sync check. A request made while a sync is running
+ * queues one follow-up sync, since the running one may have fetched the feed
+ * before the publish that prompted the request; concurrent requests share it.
  */
-async function performSync(): Promise<void> {
-  if (isRunning) {
-    console.log('[BackgroundSync] Sync already running, skipping...');
-    return;
+function performSync(): Promise<void> {
+  if (activeSync) {
+    if (!queuedSync) {
+      console.log('[BackgroundSync] Sync already running, queueing a follow-up...');
+      queuedSync = activeSync.then(() => {
+        queuedSync = null;
+        return performSync();
+      });
+    }
+    return queuedSync;
   }
 
-  isRunning = true;
+  activeSync = runSync().then(() => {
+    activeSync = null;
+  });
+  return activeSync;
+}
+
+async function runSync(): Promise<void> {
   const startTime = Date.now();
 
   try {
     console.log('[BackgroundSync] Starting sync check...');
     
-    const { needsUpdate, reason, remoteData } = await shouldUpdate();
+    const { needsUpdate, reason, remoteData, diff } = await shouldUpdate();
     
     if (needsUpdate && remoteData) {
       console.log(`[BackgroundSync] ${reason} - updating cache...`);
+      if (diff) {
+        console.log(`[BackgroundSync] Changes: ${diff.summary.added} added, ${diff.summary.removed} removed, ${diff.summary.changed} changed`);
+      }
       try {
         await setCachedData(remoteData);
         console.log('[BackgroundSync] Cache updated successfully');
+        if (diff) {
+          await appendChangeLog(diff);
+        }
       } catch (cacheError) {
         console.error('[BackgroundSync] Failed to update cache, but data is available:', cacheError);
         // Cache failure shouldn't be fatal - the API can still serve fresh data
       }
+
+      if (diff) {
+        // Subscribers hear about the new syncToken even when caching it failed
+        await notifyWebhooks(diff).catch((webhookError) => {
+          console.error('[BackgroundSync] Failed to notify webhooks:', webhookError);
+        });
+      }
     } else {
       console.log(`[BackgroundSync] ${reason}`);
     }
@@ -157,8 +249,6 @@ async function performSync(): Promise<void> {
 
   } catch (error) {
     console.error('[BackgroundSync] Sync failed:', error);
-  } finally {
-    isRunning = false;
   }
 }
 
@@ -210,11 +300,12 @@ export function stopBackgroundSync(): void {
 /**
  * Get sync status
  */
-export function getSyncStatus(): { running: boolean; interval: number; environment: string } {
+export function getSyncStatus(): SyncStatus {
   return {
     running: syncInterval !== null,
     interval: CHECK_INTERVAL,
-    environment: process.env.VERCEL ? 'serverless' : 'traditional'
+    environment: process.env.VERCEL ? 'serverless' : 'traditional',
+    lastValidation: lastValidationReport,
   };
 }
 
@@ -1,5 +1,6 @@
 import { put, head, del } from '@vercel/blob';
 import { AWSIPRanges } from '@/types';
+import { saveSnapshot } from './snapshots';
 
 interface CacheData {
   data: AWSIPRanges;
@@ -92,6 +93,9 @@ export async function setCachedData(data: AWSIPRanges): Promise<void> {
     console.log('Blob caching failed, using memory cache only:', error);
     // Don't throw - caching failure shouldn't break the app
   }
+
+  // Keep every distinct version for historical queries
+  await saveSnapshot(data);
 }
 
 /**
@@ -0,0 +1,60 @@
+import { put, head } from '@vercel/blob';
+import { ChangeLogEntry, IPRangesDiff } from '@/types';
+import { MAX_SNAPSHOTS } from './snapshots';
+
+const CHANGE_LOG_BLOB = 'cache/changes.json';
+
+// In-memory fallback when blob storage is unavailable (newest first)
+let memoryChangeLog: ChangeLogEntry[] = [];
+
+/**
+ * Reads the change log, newest publish first
+ */
+export async function getChangeLog(): Promise<ChangeLogEntry[]> {
+  try {
+    const blobInfo = await head(CHANGE_LOG_BLOB).catch(() => null);
+
+    if (blobInfo) {
+      const response = await fetch(blobInfo.url);
+      const entries: ChangeLogEntry[] = JSON.parse(await response.text());
+      memoryChangeLog = entries;
+      return entries;
+    }
+  } catch (error) {
+    console.log('Change log unavailable, using memory change log:', error);
+  }
+
+  return memoryChangeLog;
+}
+
+/**
+ * Records the diff of a sync. Entries are kept for as long as their snapshots are.
+ */
+export async function appendChangeLog(diff: IPRangesDiff): Promise<void> {
+  const entries = await getChangeLog();
+  if (entries.some((entry) => entry.to.syncToken === diff.to.syncToken)) {
+    return;
+  }
+
+  const entry: ChangeLogEntry = {
+    ...diff,
+    detectedAt: new Date().toISOString(),
+  };
+
+  memoryChangeLog = [entry]
+    .concat(entries)
+    .sort((a, b) => b.to.createDate.localeCompare(a.to.createDate))
+    .slice(0, MAX_SNAPSHOTS);
+
+  try {
+    await put(CHANGE_LOG_BLOB, JSON.stringify(memoryChangeLog), {
+      access: 'public',
+      allowOverwrite: true,
+      contentType: 'application/json',
+    });
+    console.log(`Recorded changes for ${diff.to.syncToken} in the change log`);
+  } catch (error) {
+    console.log('Change log storage failed, keeping entry in memory only:', error);
+    // Don't throw - the change log is best effort
+  }
+}
\ No newline at end of file
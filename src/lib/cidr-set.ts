@@ -0,0 +1,237 @@
+import { CombinedPrefix } from '@/types';
+import { IPVersion, ParsedCIDR, addressBits, cidrContains, compareBytes, formatCIDR, parseCIDR } from '@/lib/ip';
+
+/**
+ * Address-set operations over CIDR blocks. Blocks are handled as inclusive
+ * [start, end] address ranges, merged, and then split back into the minimal
+ * list of CIDRs covering each range.
+ */
+
+interface AddressRange {
+  type: IPVersion;
+  start: number[];
+  end: number[];
+  // AWS entries the addresses in this range came from
+  sources: { prefix: CombinedPrefix; network: ParsedCIDR }[];
+}
+
+function lastAddress(network: ParsedCIDR): number[] {
+  return network.bytes.map((byte, index) => {
+    const bitsInByte = Math.min(8, Math.max(0, network.prefixLength - index * 8));
+    return byte | (0xff >> bitsInByte);
+  });
+}
+
+function isMaxAddress(bytes: number[]): boolean {
+  return bytes.every((byte) => byte === 0xff);
+}
+
+function addOne(bytes: number[]): number[] {
+  const result = bytes.slice();
+  for (let i = result.length - 1; i >= 0; i--) {
+    if (result[i] < 0xff) {
+      result[i]++;
+      return result;
+    }
+    result[i] = 0;
+  }
+  return result;
+}
+
+function subtractOne(bytes: number[]): number[] {
+  const result = bytes.slice();
+  for (let i = result.length - 1; i >= 0; i--) {
+    if (result[i] > 0) {
+      result[i]--;
+      return result;
+    }
+    result[i] = 0xff;
+  }
+  return result;
+}
+
+function trailingZeroBits(bytes: number[]): number {
+  let count = 0;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    if (bytes[i] === 0) {
+      count += 8;
+      continue;
+    }
+    let byte = bytes[i];
+    while ((byte & 1) === 0) {
+      count++;
+      byte >>= 1;
+    }
+    break;
+  }
+  return count;
+}
+
+/**
+ * Splits an inclusive address range into the minimal list of CIDR blocks
+ */
+function rangeToCIDRs(type: IPVersion, start: number[], end: number[]): ParsedCIDR[] {
+  const bits = addressBits(type);
+  const blocks: ParsedCIDR[] = [];
+  let current = start;
+
+  while (compareBytes(current, end) <= 0) {
+    // Largest block aligned at `current` that doesn't run past `end`
+    let prefixLength = Math.max(0, bits - trailingZeroBits(current));
+    let block: ParsedCIDR = { type, bytes: current, prefixLength };
+    while (compareBytes(lastAddress(block), end) > 0) {
+      prefixLength++;
+      block = { type, bytes: current, prefixLength };
+    }
+
+    blocks.push(block);
+    const blockEnd = lastAddress(block);
+    if (isMaxAddress(blockEnd)) break;
+    current = addOne(blockEnd);
+  }
+
+  return blocks;
+}
+
+/**
+ * Lists the distinct values of an attribute, so merged blocks still show where they came from
+ */
+function summarizeValues(values: string[]): string {
+  return Array.from(new Set(values)).sort().join(', ');
+}
+
+function rangesToPrefixes(ranges: AddressRange[]): CombinedPrefix[] {
+  const result: CombinedPrefix[] = [];
+
+  ranges.forEach((range) => {
+    rangeToCIDRs(range.type, range.start, range.end).forEach((block) => {
+      // Attribute each output block only to the entries that actually overlap it
+      const sources = range.sources
+        .filter((source) => cidrContains(source.network, block) || cidrContains(block, source.network))
+        .map((source) => source.prefix);
+
+      result.push({
+        prefix: formatCIDR(block),
+        region: summarizeValues(sources.map((source) => source.region)),
+        service: summarizeValues(sources.map((source) => source.service)),
+        network_border_group: summarizeValues(sources.map((source) => source.network_border_group)),
+        type: range.type,
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Converts prefixes into merged, sorted address ranges per family. Overlapping
+ * and adjacent blocks are combined.
+ */
+function toMergedRanges(prefixes: CombinedPrefix[]): AddressRange[] {
+  const ranges: AddressRange[] = [];
+
+  prefixes.forEach((prefix) => {
+    const network = parseCIDR(prefix.prefix);
+    if (!network) return;
+    ranges.push({
+      type: network.type,
+      start: network.bytes,
+      end: lastAddress(network),
+      sources: [{ prefix, network }],
+    });
+  });
+
+  ranges.sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'ipv4' ? -1 : 1;
+    return compareBytes(a.start, b.start);
+  });
+
+  const merged: AddressRange[] = [];
+  ranges.forEach((range) => {
+    const previous = merged[merged.length - 1];
+    const touchesPrevious =
+      previous &&
+      previous.type === range.type &&
+      (isMaxAddress(previous.end) || compareBytes(range.start, addOne(previous.end)) <= 0);
+
+    if (touchesPrevious) {
+      if (compareBytes(range.end, previous.end) > 0) {
+        previous.end = range.end;
+      }
+      previous.sources = previous.sources.concat(range.sources);
+    } else {
+      merged.push({ ...range, sources: range.sources.slice() });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Removes every address covered by `exclude` from `include`. Both lists must be
+ * merged and sorted (see toMergedRanges), which allows a single forward sweep.
+ */
+function subtractRanges(include: AddressRange[], exclude: AddressRange[]): AddressRange[] {
+  const result: AddressRange[] = [];
+  const familyOrder = (type: IPVersion) => (type === 'ipv4' ? 0 : 1);
+  let first = 0;
+
+  include.forEach((range) => {
+    // Skip exclusions that end before this range starts; later ranges start even further on
+    while (
+      first < exclude.length &&
+      (familyOrder(exclude[first].type) < familyOrder(range.type) ||
+        (exclude[first].type === range.type && compareBytes(exclude[first].end, range.start) < 0))
+    ) {
+      first++;
+    }
+
+    let start = range.start;
+    let remaining = true;
+
+    for (
+      let i = first;
+      i < exclude.length && exclude[i].type === range.type && compareBytes(exclude[i].start, range.end) <= 0;
+      i++
+    ) {
+      const excluded = exclude[i];
+      if (compareBytes(excluded.start, start) > 0) {
+        result.push({ ...range, start, end: subtractOne(excluded.start) });
+      }
+      if (compareBytes(excluded.end, range.end) >= 0) {
+        remaining = false;
+        break;
+      }
+      if (compareBytes(excluded.end, start) >= 0) {
+        start = addOne(excluded.end);
+      }
+    }
+
+    if (remaining) {
+      result.push({ ...range, start });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Collapses prefixes into the smallest equivalent set of CIDR blocks by
+ * merging nested and adjacent ranges. Region, service and network border
+ * group of each output block list the distinct values of its sources.
+ */
+export function aggregatePrefixes(prefixes: CombinedPrefix[]): CombinedPrefix[] {
+  return rangesToPrefixes(toMergedRanges(prefixes));
+}
+
+/**
+ * Subtracts the address space of `exclude` from `include` and returns the
+ * remaining addresses as the minimal list of CIDR blocks. Output blocks are
+ * attributed to the `include` entries they came from.
+ */
+export function subtractPrefixes(
+  include: CombinedPrefix[],
+  exclude: CombinedPrefix[]
+): CombinedPrefix[] {
+  return rangesToPrefixes(subtractRanges(toMergedRanges(include), toMergedRanges(exclude)));
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { VersionRef } from '@/types';
+import { parseAWSCreateDate } from '@/lib/utils';
+
+export interface CacheValidators {
+  etag: string;
+  lastModified: string | null;
+}
+
+/**
+ * Validators for a response built from one version of the data. The ETag
+ * covers the syncToken and the query, so each filtered view revalidates on its own.
+ */
+export function getCacheValidators(version: VersionRef, searchParams: URLSearchParams): CacheValidators {
+  const query = Array.from(searchParams.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  const queryHash = query ? `-${createHash('sha1').update(query).digest('hex').slice(0, 16)}` : '';
+  const createdAt = parseAWSCreateDate(version.createDate);
+
+  return {
+    // Weak: the same data may be serialized or compressed differently
+    etag: `W/"${version.syncToken}${queryHash}"`,
+    lastModified: createdAt ? createdAt.toUTCString() : null,
+  };
+}
+
+export function validatorHeaders(validators: CacheValidators): Record<string, string> {
+  return validators.lastModified
+    ? { 'ETag': validators.etag, 'Last-Modified': validators.lastModified }
+    : { 'ETag': validators.etag };
+}
+
+/**
+ * Whether the client's cached copy is still current. If-None-Match wins over
+ * If-Modified-Since when both are sent.
+ */
+export function isNotModified(request: NextRequest, validators: CacheValidators): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => opaque(tag) === opaque(validators.etag));
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && Date.parse(validators.lastModified) <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Whether the request carries validators to compare against the current version
+ */
+export function isConditionalRequest(request: NextRequest): boolean {
+  return request.headers.has('if-none-match') || request.headers.has('if-modified-since');
+}
+
+/**
+ * Answers a conditional request with a 304 before the route's handler (and
+ * its rate limiter) runs, so revalidating a current copy neither uses up the
+ * client's quota nor is refused for lack of it. The version is only loaded
+ * here for conditional requests and is passed on so it isn't loaded twice.
+ */
+export async function withNotModified<T extends VersionRef>(
+  request: NextRequest,
+  loadVersion: () => Promise<T | null>,
+  headers: (version: T) => Record<string, string>,
+  handler: (preloaded: T | null) => Promise<NextResponse>
+): Promise<NextResponse> {
+  // A failed load is left to the handler, which reports it
+  const preloaded = isConditionalRequest(request) ? await loadVersion().catch(() => null) : null;
+  if (preloaded) {
+    const validators = getCacheValidators(preloaded, new URL(request.url).searchParams);
+    if (isNotModified(request, validators)) {
+      return notModifiedResponse(validators, headers(preloaded));
+    }
+  }
+
+  return handler(preloaded);
+}
+
+/**
+ * Empty 304 response carrying the validators and the route's caching headers
+ */
+export function notModifiedResponse(validators: CacheValidators, headers: Record<string, string> = {}): NextResponse {
+  return new NextResponse(null, {
+    status: 304,
+    headers: {
+      ...headers,
+      ...validatorHeaders(validators),
+    },
+  });
+}
\ No newline at end of file
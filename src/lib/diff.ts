@@ -0,0 +1,167 @@
+import { AWSIPRanges, CombinedPrefix, DiffGroupSummary, IPRangesDiff, PrefixAttributes, PrefixChange } from '@/types';
+import { transformAWSIPRanges } from '@/lib/api';
+import { compareCIDRs, normalizeCIDR } from '@/lib/ip';
+
+/**
+ * Groups entries by canonical prefix, so the same network written differently
+ * in two versions still compares equal
+ */
+function groupByPrefix(prefixes: CombinedPrefix[]): Map<string, CombinedPrefix[]> {
+  const groups = new Map<string, CombinedPrefix[]>();
+
+  prefixes.forEach((prefix) => {
+    const key = normalizeCIDR(prefix.prefix)?.cidr || prefix.prefix;
+    const group = groups.get(key);
+    if (group) {
+      group.push(prefix);
+    } else {
+      groups.set(key, [prefix]);
+    }
+  });
+
+  return groups;
+}
+
+function toAttributes(entries: CombinedPrefix[]): PrefixAttributes[] {
+  return entries
+    .map((entry) => ({
+      region: entry.region,
+      service: entry.service,
+      network_border_group: entry.network_border_group,
+    }))
+    .sort((a, b) =>
+      a.service.localeCompare(b.service) ||
+      a.region.localeCompare(b.region) ||
+      a.network_border_group.localeCompare(b.network_border_group)
+    );
+}
+
+function attributesKey(attributes: PrefixAttributes[]): string {
+  return attributes
+    .map((entry) => `${entry.region}|${entry.service}|${entry.network_border_group}`)
+    .join(',');
+}
+
+function byPrefix(a: { prefix: string }, b: { prefix: string }): number {
+  return compareCIDRs(a.prefix, b.prefix);
+}
+
+/**
+ * Computes what changed between two versions of the AWS IP ranges: prefixes
+ * that were added or removed, and prefixes whose region, service or network
+ * border group entries changed
+ */
+export function diffAWSIPRanges(from: AWSIPRanges, to: AWSIPRanges): IPRangesDiff {
+  const before = groupByPrefix(transformAWSIPRanges(from));
+  const after = groupByPrefix(transformAWSIPRanges(to));
+
+  const added: CombinedPrefix[] = [];
+  const removed: CombinedPrefix[] = [];
+  const changed: PrefixChange[] = [];
+
+  after.forEach((entries, prefix) => {
+    const previous = before.get(prefix);
+    if (!previous) {
+      added.push(...entries);
+      return;
+    }
+
+    const beforeAttributes = toAttributes(previous);
+    const afterAttributes = toAttributes(entries);
+    if (attributesKey(beforeAttributes) !== attributesKey(afterAttributes)) {
+      changed.push({
+        prefix,
+        type: entries[0].type,
+        before: beforeAttributes,
+        after: afterAttributes,
+      });
+    }
+  });
+
+  before.forEach((entries, prefix) => {
+    if (!after.has(prefix)) {
+      removed.push(...entries);
+    }
+  });
+
+  added.sort(byPrefix);
+  removed.sort(byPrefix);
+  changed.sort(byPrefix);
+
+  return {
+    from: { syncToken: from.syncToken, createDate: from.createDate },
+    to: { syncToken: to.syncToken, createDate: to.createDate },
+    added,
+    removed,
+    changed,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+    },
+  };
+}
+
+/**
+ * Narrows a diff to the given regions and services (empty lists match everything)
+ * and, optionally, to one IP version.
+ * A changed prefix is kept when any of its entries, before or after, matches.
+ */
+export function filterDiff<T extends IPRangesDiff>(
+  diff: T,
+  filters: { regions: string[]; services: string[]; includeIPv4?: boolean; includeIPv6?: boolean }
+): T {
+  const matches = (entry: PrefixAttributes) =>
+    (filters.regions.length === 0 || filters.regions.indexOf(entry.region) !== -1) &&
+    (filters.services.length === 0 || filters.services.indexOf(entry.service) !== -1);
+  const matchesType = (type: 'ipv4' | 'ipv6') =>
+    type === 'ipv4' ? filters.includeIPv4 !== false : filters.includeIPv6 !== false;
+
+  const added = diff.added.filter((entry) => matchesType(entry.type) && matches(entry));
+  const removed = diff.removed.filter((entry) => matchesType(entry.type) && matches(entry));
+  const changed = diff.changed.filter((change) =>
+    matchesType(change.type) && (change.before.some(matches) || change.after.some(matches))
+  );
+
+  return {
+    ...diff,
+    added,
+    removed,
+    changed,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+    },
+  };
+}
+
+/**
+ * Counts the changes in a diff per region and service
+ */
+export function summarizeDiffByGroup(diff: IPRangesDiff): DiffGroupSummary[] {
+  const groups = new Map<string, DiffGroupSummary>();
+
+  const groupFor = (entry: PrefixAttributes): DiffGroupSummary => {
+    const key = `${entry.region}|${entry.service}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { region: entry.region, service: entry.service, added: 0, removed: 0, changed: 0 };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  diff.added.forEach((entry) => groupFor(entry).added++);
+  diff.removed.forEach((entry) => groupFor(entry).removed++);
+  diff.changed.forEach((change) => {
+    // Count a changed prefix once per region/service it was or is listed under
+    const touched = new Set<DiffGroupSummary>();
+    change.before.concat(change.after).forEach((entry) => touched.add(groupFor(entry)));
+    touched.forEach((group) => group.changed++);
+  });
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.region.localeCompare(b.region) || a.service.localeCompare(b.service)
+  );
+}
\ No newline at end of file
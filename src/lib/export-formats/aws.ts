@@ -0,0 +1,214 @@
+import { CombinedPrefix } from '@/types';
+import { ExportContext, ExportFormatter, ExportOptionsError, readChoice, readOption } from './common';
+
+// CreateManagedPrefixList and ModifyManagedPrefixList accept at most 100 entries per call
+const MAX_PREFIX_LIST_ENTRIES = 100;
+// Largest MaxEntries a managed prefix list can have (the default EC2 quota)
+const MAX_LIST_SIZE = 1000;
+// Default rules per security group, counted separately for IPv4 and IPv6.
+// A rule referencing a prefix list counts as that list's maximum entries.
+export const DEFAULT_RULES_PER_GROUP = 60;
+const MAX_RULES_PER_GROUP = 1000;
+// Limit on prefix list entry and security group rule descriptions
+const MAX_DESCRIPTION_LENGTH = 255;
+const SECURITY_GROUP_IDS = /^sg-[0-9a-f]{8,17}(,sg-[0-9a-f]{8,17})*$/;
+
+export interface IngressRule {
+  protocol: 'tcp' | 'udp' | 'icmp' | '-1';
+  // -1 for ICMP (all types) and 0 for all traffic, as the EC2 API expects
+  fromPort: number;
+  toPort: number;
+}
+
+interface AWSEntry {
+  cidr: string;
+  description: string;
+}
+
+/**
+ * Unique CIDRs of one family, each described by the services and regions
+ * of every entry sharing it
+ */
+function awsEntries(prefixes: CombinedPrefix[], type: CombinedPrefix['type']): AWSEntry[] {
+  const sources = new Map<string, { services: string[]; regions: string[] }>();
+  const cidrs: string[] = [];
+  // Aggregated prefixes already list several values as "A, B"
+  const add = (values: string[], value: string) => value.split(', ').forEach((part) => {
+    if (values.indexOf(part) === -1) values.push(part);
+  });
+
+  prefixes.forEach((prefix) => {
+    if (prefix.type !== type) return;
+    let source = sources.get(prefix.prefix);
+    if (!source) {
+      source = { services: [], regions: [] };
+      sources.set(prefix.prefix, source);
+      cidrs.push(prefix.prefix);
+    }
+    add(source.services, prefix.service);
+    add(source.regions, prefix.region);
+  });
+
+  return cidrs.map((cidr) => {
+    const source = sources.get(cidr) as { services: string[]; regions: string[] };
+    return { cidr, description: `${source.services.join(',')} ${source.regions.join(',')}`.slice(0, MAX_DESCRIPTION_LENGTH) };
+  });
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function readLimit(context: ExportContext, name: string, fallback: number, max: number): number {
+  const value = readOption(context, name, String(fallback), /^\d{1,4}$/, `use a whole number from 1 to ${max}`);
+  const limit = parseInt(value, 10);
+  if (limit < 1 || limit > max) {
+    throw new ExportOptionsError(`Invalid ${name} "${value}": use a whole number from 1 to ${max}`);
+  }
+  return limit;
+}
+
+/**
+ * Reads the protocol and port options describing a security group rule
+ */
+export function readIngressRule(context: ExportContext): IngressRule {
+  const protocol = readChoice<IngressRule['protocol']>(context, 'protocol', ['tcp', 'udp', 'icmp', '-1'], 'tcp');
+  const ports = readOption(context, 'port', '443', /^\d{1,5}(-\d{1,5})?$/, 'use a port such as 443 or a range such as 1024-65535');
+
+  const [fromPort, toPort = fromPort] = ports.split('-').map((port) => parseInt(port, 10));
+  if (toPort > 65535 || fromPort > toPort) {
+    throw new ExportOptionsError(`Invalid port "${ports}": use ports from 0 to 65535, lowest first`);
+  }
+
+  if (protocol === 'icmp') return { protocol, fromPort: -1, toPort: -1 };
+  if (protocol === '-1') return { protocol, fromPort: 0, toPort: 0 };
+  return { protocol, fromPort, toPort };
+}
+
+/**
+ * Reads the list that action=modify adds to. Each call bumps the list's
+ * version, so calls after the first expect the versions that follow.
+ * targetMaxEntries is the list's MaxEntries, which the export must fit in.
+ */
+function readModifyTarget(context: ExportContext): { prefixListId: string; currentVersion: number; maxEntries: number } {
+  const prefixListId = readOption(context, 'prefixListId', '', /^pl-[0-9a-f]{8,17}$/, 'use a prefix list id such as pl-0123456789abcdef0');
+  const currentVersion = readOption(context, 'currentVersion', '', /^\d{1,15}$/, 'use the version number of the prefix list');
+  if (!prefixListId || !currentVersion || !context.options.get('targetMaxEntries')) {
+    throw new ExportOptionsError('action=modify needs the prefixListId, currentVersion and targetMaxEntries of the list to add to');
+  }
+  if (context.filters.includeIPv4 && context.filters.includeIPv6) {
+    throw new ExportOptionsError('action=modify adds to one prefix list, which holds a single address family: set includeIPv4=false or includeIPv6=false');
+  }
+  return {
+    prefixListId,
+    currentVersion: parseInt(currentVersion, 10),
+    maxEntries: readLimit(context, 'targetMaxEntries', MAX_LIST_SIZE, MAX_LIST_SIZE),
+  };
+}
+
+function readDescriptions(context: ExportContext): boolean {
+  return context.options.get('descriptions') === 'true';
+}
+
+function toJSONLines(value: unknown): string[] {
+  return JSON.stringify(value, null, 2).split('\n');
+}
+
+/**
+ * Managed prefix lists covering the export, split by address family and into
+ * lists of at most maxEntries. Each element is the --cli-input-json for one
+ * create-managed-prefix-list call. With action=modify, each element instead
+ * adds up to maxEntries entries to the existing list prefixListId.
+ */
+export function formatPrefixLists(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const name = readOption(context, 'name', 'aws-ip-ranges', /^(?!com\.amazonaws)[A-Za-z0-9_.-]{1,200}$/, 'use up to 200 letters, digits, "_", "." or "-", not starting with "com.amazonaws"');
+  const action = readChoice(context, 'action', ['create', 'modify'], 'create');
+  const maxEntries = readLimit(context, 'maxEntries', MAX_PREFIX_LIST_ENTRIES, MAX_PREFIX_LIST_ENTRIES);
+  const descriptions = readDescriptions(context);
+  const target = action === 'modify' ? readModifyTarget(context) : null;
+
+  const families: Array<{ type: CombinedPrefix['type']; addressFamily: string; included: boolean }> = [
+    { type: 'ipv4', addressFamily: 'IPv4', included: context.filters.includeIPv4 },
+    { type: 'ipv6', addressFamily: 'IPv6', included: context.filters.includeIPv6 },
+  ];
+  const lists: object[] = [];
+
+  families.forEach(({ type, addressFamily, included }) => {
+    if (!included) return;
+    const familyEntries = awsEntries(prefixes, type);
+    if (target && familyEntries.length > target.maxEntries) {
+      throw new ExportOptionsError(`The export has ${familyEntries.length} ${addressFamily} entries but the prefix list holds at most ${target.maxEntries} (targetMaxEntries): narrow the filters, set aggregate=true or raise the list's MaxEntries first`);
+    }
+    const chunks = chunk(familyEntries, maxEntries);
+
+    chunks.forEach((entries, index) => {
+      const listName = `${name}-${type}${chunks.length > 1 ? `-${index + 1}` : ''}`;
+      const listEntries = entries.map((entry) => descriptions
+        ? { Cidr: entry.cidr, Description: entry.description }
+        : { Cidr: entry.cidr });
+
+      lists.push(target
+        ? { PrefixListId: target.prefixListId, CurrentVersion: target.currentVersion + index, AddEntries: listEntries }
+        : { PrefixListName: listName, AddressFamily: addressFamily, MaxEntries: maxEntries, Entries: listEntries });
+    });
+  });
+
+  return toJSONLines(lists);
+}
+
+/**
+ * Security group ingress permissions covering the export, split into groups
+ * of at most rulesPerGroup IPv4 and rulesPerGroup IPv6 rules. Each element is
+ * the --cli-input-json for one authorize-security-group-ingress call, aimed at
+ * the matching id in securityGroupId when one is given.
+ */
+export function formatSecurityGroups(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const rule = readIngressRule(context);
+  const rulesPerGroup = readLimit(context, 'rulesPerGroup', DEFAULT_RULES_PER_GROUP, MAX_RULES_PER_GROUP);
+  const descriptions = readDescriptions(context);
+  const groupIdList = readOption(context, 'securityGroupId', '', SECURITY_GROUP_IDS, 'use security group ids such as sg-0123456789abcdef0, comma-separated for several groups');
+  const groupIds = groupIdList ? groupIdList.split(',') : [];
+
+  const ipv4 = chunk(context.filters.includeIPv4 ? awsEntries(prefixes, 'ipv4') : [], rulesPerGroup);
+  const ipv6 = chunk(context.filters.includeIPv6 ? awsEntries(prefixes, 'ipv6') : [], rulesPerGroup);
+  const groupCount = Math.max(ipv4.length, ipv6.length);
+  if (groupIds.length > 0 && groupIds.length < groupCount) {
+    throw new ExportOptionsError(`The rules need ${groupCount} security groups: pass ${groupCount} comma-separated securityGroupId values or raise rulesPerGroup`);
+  }
+  const groups: object[] = [];
+
+  for (let i = 0; i < groupCount; i++) {
+    groups.push({
+      ...(groupIds.length > 0 && { GroupId: groupIds[i] }),
+      IpPermissions: [{
+        IpProtocol: rule.protocol,
+        // All traffic (-1) isn't port based
+        ...(rule.protocol !== '-1' && { FromPort: rule.fromPort, ToPort: rule.toPort }),
+        IpRanges: (ipv4[i] || []).map((entry) => descriptions
+          ? { CidrIp: entry.cidr, Description: entry.description }
+          : { CidrIp: entry.cidr }),
+        Ipv6Ranges: (ipv6[i] || []).map((entry) => descriptions
+          ? { CidrIpv6: entry.cidr, Description: entry.description }
+          : { CidrIpv6: entry.cidr }),
+      }],
+    });
+  }
+
+  return toJSONLines(groups);
+}
+
+export const prefixListFormatter: ExportFormatter = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'prefix-list.json',
+  render: formatPrefixLists,
+};
+
+export const securityGroupFormatter: ExportFormatter = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'security-group.json',
+  render: formatSecurityGroups,
+};
\ No newline at end of file
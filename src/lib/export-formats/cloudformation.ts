@@ -0,0 +1,275 @@
+import { compareCIDRs } from '@/lib/ip';
+import { ExportContext, ExportFormatter, commentHeader, readChoice, readOption, readResourceName, uniqueCIDRsByFamily } from './common';
+import { DEFAULT_RULES_PER_GROUP, IngressRule, readIngressRule, readLimit } from './aws';
+import { YamlValue, toYamlLines } from './yaml';
+
+// Entries per AWS::EC2::PrefixList (the default EC2 quota)
+const MAX_PREFIX_LIST_ENTRIES = 1000;
+// Largest template body CloudFormation accepts without uploading it to S3
+const MAX_TEMPLATE_BYTES = 51200;
+const MAX_TEMPLATE_RESOURCES = 500;
+
+type TemplateSyntax = 'yaml' | 'json';
+
+interface PrefixListChunk {
+  family: 'ipv4' | 'ipv6';
+  cidrs: string[];
+}
+
+// Next list number per family, so list names stay stable when the other family changes
+type ListNumbers = Record<PrefixListChunk['family'], number>;
+
+interface TemplateOptions {
+  name: string;
+  rule: IngressRule;
+  securityGroupId: string;
+  ingress: boolean;
+  maxEntries: number;
+}
+
+/**
+ * "aws-ip-ranges" → "AwsIpRanges", for logical IDs and constant names
+ */
+function pascalCase(name: string): string {
+  return name.split(/[-_]/).filter(Boolean).map((part) => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+function sortedChunks(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }, size: number): PrefixListChunk[] {
+  const chunks: PrefixListChunk[] = [];
+  const families: Array<PrefixListChunk['family']> = [];
+  if (context.filters.includeIPv4) families.push('ipv4');
+  if (context.filters.includeIPv6) families.push('ipv6');
+
+  families.forEach((family) => {
+    const sorted = cidrs[family].slice().sort(compareCIDRs);
+    for (let i = 0; i < sorted.length; i += size) {
+      chunks.push({ family, cidrs: sorted.slice(i, i + size) });
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * The prefix list for one chunk and its ingress rule. Every list is sized to
+ * maxEntries, so lists don't need replacing as a sync moves CIDRs between chunks.
+ */
+function chunkResources(chunk: PrefixListChunk, number: number, options: TemplateOptions): { [key: string]: YamlValue } {
+  const listId = `${pascalCase(options.name)}${chunk.family === 'ipv4' ? 'Ipv4' : 'Ipv6'}List${number}`;
+  const resources: { [key: string]: YamlValue } = {
+    [listId]: {
+      Type: 'AWS::EC2::PrefixList',
+      Properties: {
+        PrefixListName: `${options.name}-${chunk.family}-${number}`,
+        AddressFamily: chunk.family === 'ipv4' ? 'IPv4' : 'IPv6',
+        MaxEntries: options.maxEntries,
+        Entries: chunk.cidrs.map((cidr) => ({ Cidr: cidr })),
+      },
+    },
+  };
+
+  if (options.ingress) {
+    const { protocol, fromPort, toPort } = options.rule;
+    resources[`${listId}Ingress`] = {
+      Type: 'AWS::EC2::SecurityGroupIngress',
+      Properties: {
+        GroupId: options.securityGroupId || { Ref: 'SecurityGroupId' },
+        IpProtocol: protocol,
+        // All traffic (-1) isn't port based
+        ...(protocol !== '-1' && { FromPort: fromPort, ToPort: toPort }),
+        SourcePrefixListId: { 'Fn::GetAtt': [listId, 'PrefixListId'] },
+        Description: `${options.name}-${chunk.family}-${number}`,
+      },
+    };
+  }
+
+  return resources;
+}
+
+function buildTemplate(chunks: PrefixListChunk[], firstNumbers: ListNumbers, description: string, options: TemplateOptions): { [key: string]: YamlValue } {
+  const resources: { [key: string]: YamlValue } = {};
+  const numbers = { ...firstNumbers };
+
+  chunks.forEach((chunk) => {
+    const chunkResult = chunkResources(chunk, numbers[chunk.family]++, options);
+    Object.keys(chunkResult).forEach((key) => {
+      resources[key] = chunkResult[key];
+    });
+  });
+
+  return {
+    AWSTemplateFormatVersion: '2010-09-09',
+    Description: description,
+    ...(options.ingress && !options.securityGroupId && {
+      Parameters: {
+        SecurityGroupId: {
+          Type: 'AWS::EC2::SecurityGroup::Id',
+          Description: `Security group the ${options.name} ingress rules are added to`,
+        },
+      },
+    }),
+    Resources: resources,
+  };
+}
+
+function serialize(header: string[], template: { [key: string]: YamlValue }, syntax: TemplateSyntax): string[] {
+  return syntax === 'yaml'
+    ? header.concat(toYamlLines(template))
+    : JSON.stringify(template, null, 2).split('\n');
+}
+
+function byteLength(lines: string[]): number {
+  return lines.reduce((total, line) => total + line.length + 1, 0);
+}
+
+/**
+ * Bytes a chunk's resources add to a template that already has some: their
+ * lines one level inside Resources and, in JSON, the comma before them
+ */
+function addedBytes(resources: { [key: string]: YamlValue }, syntax: TemplateSyntax): number {
+  if (syntax === 'yaml') {
+    return byteLength(toYamlLines(resources, '  '));
+  }
+  const lines = JSON.stringify(resources, null, 2).split('\n').slice(1, -1);
+  return byteLength(lines) + lines.length * 2 + 1;
+}
+
+/**
+ * CloudFormation templates with an AWS::EC2::PrefixList per chunk of CIDRs
+ * and a matching AWS::EC2::SecurityGroupIngress. Output that would exceed the
+ * template body size or resource limits is split across several templates:
+ * YAML documents separated by "---", or the elements of a JSON array (which
+ * is always an array, even for a single template).
+ */
+export function formatCloudFormation(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }, syntax: TemplateSyntax): string[] {
+  const ingress = readChoice(context, 'resources', ['all', 'prefix-list'], 'all') === 'all';
+  const options: TemplateOptions = {
+    name: readResourceName(context),
+    rule: readIngressRule(context),
+    securityGroupId: readOption(context, 'securityGroupId', '', /^sg-[0-9a-f]{8,17}$/, 'use a security group id such as sg-0123456789abcdef0'),
+    ingress,
+    // A rule referencing a list counts its MaxEntries against the security group's rules quota
+    maxEntries: readLimit(context, 'maxEntries', ingress ? DEFAULT_RULES_PER_GROUP : MAX_PREFIX_LIST_ENTRIES, MAX_PREFIX_LIST_ENTRIES),
+  };
+  const header = commentHeader(context).concat(ingress ? [
+    `# Each ingress rule counts as ${options.maxEntries} rules against the security group's quota (${DEFAULT_RULES_PER_GROUP} per address family by default);`,
+    '# a family with more CIDRs than the quota needs a quota increase or several security groups',
+  ] : []);
+  const resourcesPerChunk = options.ingress ? 2 : 1;
+  const description = (part: number) => `AWS IP ranges (syncToken ${context.version.syncToken}) exported by IPMapAWS, part ${part}`;
+  const build = (template: { chunks: PrefixListChunk[]; firstNumbers: ListNumbers }, part: number) =>
+    buildTemplate(template.chunks, template.firstNumbers, description(part), options);
+
+  // Fill each template with as many prefix lists as fit, halving lists that don't fit on their own
+  const pending = sortedChunks(context, cidrs, options.maxEntries);
+  const templates: Array<{ chunks: PrefixListChunk[]; firstNumbers: ListNumbers }> = [];
+  let current: PrefixListChunk[] = [];
+  let numbers: ListNumbers = { ipv4: 1, ipv6: 1 };
+  // Numbers and serialized size of the current template as it fills, so each chunk is only serialized once
+  let nextNumbers: ListNumbers = { ...numbers };
+  let size = 0;
+
+  const sizeWith = (chunk: PrefixListChunk) => current.length === 0
+    ? byteLength(serialize(header, build({ chunks: [chunk], firstNumbers: numbers }, templates.length + 1), syntax))
+    : size + addedBytes(chunkResources(chunk, nextNumbers[chunk.family], options), syntax);
+  const add = (chunk: PrefixListChunk, chunkSize: number) => {
+    current.push(chunk);
+    nextNumbers[chunk.family]++;
+    size = chunkSize;
+  };
+
+  while (pending.length > 0) {
+    const next = pending.shift() as PrefixListChunk;
+    const nextSize = sizeWith(next);
+    if ((current.length + 1) * resourcesPerChunk <= MAX_TEMPLATE_RESOURCES && nextSize <= MAX_TEMPLATE_BYTES) {
+      add(next, nextSize);
+    } else if (current.length > 0) {
+      templates.push({ chunks: current, firstNumbers: numbers });
+      numbers = nextNumbers;
+      nextNumbers = { ...numbers };
+      current = [];
+      pending.unshift(next);
+    } else if (next.cidrs.length > 1) {
+      const half = Math.ceil(next.cidrs.length / 2);
+      pending.unshift({ family: next.family, cidrs: next.cidrs.slice(0, half) }, { family: next.family, cidrs: next.cidrs.slice(half) });
+    } else {
+      add(next, nextSize);
+    }
+  }
+  if (current.length > 0 || templates.length === 0) {
+    templates.push({ chunks: current, firstNumbers: numbers });
+  }
+
+  if (syntax === 'json') {
+    return JSON.stringify(templates.map((template, index) => build(template, index + 1)), null, 2).split('\n');
+  }
+
+  return templates.reduce<string[]>((lines, template, index) => lines.concat(
+    index > 0 ? ['---'] : [],
+    serialize(header, build(template, index + 1), syntax)
+  ), []);
+}
+
+/**
+ * TypeScript module for AWS CDK apps: a readonly tuple of CIDRs per address
+ * family, a union type of its members, and the same CIDRs split into
+ * prefix-list sized chunks
+ */
+export function formatCdkTs(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }): string[] {
+  const constant = readResourceName(context).replace(/-/g, '_').toUpperCase();
+  const type = pascalCase(readResourceName(context));
+  const maxEntries = readLimit(context, 'maxEntries', MAX_PREFIX_LIST_ENTRIES, MAX_PREFIX_LIST_ENTRIES);
+
+  const lines = commentHeader(context, '//').concat(
+    '',
+    `export const ${constant}_SYNC_TOKEN = '${context.version.syncToken}';`,
+    '',
+    `// Entries allowed in one managed prefix list`,
+    `export const ${constant}_MAX_PREFIX_LIST_ENTRIES = ${maxEntries};`
+  );
+
+  const families: Array<'ipv4' | 'ipv6'> = [];
+  if (context.filters.includeIPv4) families.push('ipv4');
+  if (context.filters.includeIPv6) families.push('ipv6');
+
+  families.forEach((family) => {
+    const name = `${constant}_${family.toUpperCase()}`;
+    const sorted = cidrs[family].slice().sort(compareCIDRs);
+
+    lines.push('');
+    if (sorted.length > 0) {
+      lines.push(`export const ${name} = [`, ...sorted.map((cidr) => `  '${cidr}',`), '] as const;');
+    } else {
+      lines.push(`export const ${name} = [] as const;`);
+    }
+    lines.push(
+      '',
+      `export type ${type}${family === 'ipv4' ? 'Ipv4' : 'Ipv6'}Cidr = typeof ${name}[number];`,
+      '',
+      `export const ${name}_CHUNKS: ReadonlyArray<ReadonlyArray<${type}${family === 'ipv4' ? 'Ipv4' : 'Ipv6'}Cidr>> = Array.from(`,
+      `  { length: Math.ceil(${name}.length / ${constant}_MAX_PREFIX_LIST_ENTRIES) },`,
+      `  (_, i) => ${name}.slice(i * ${constant}_MAX_PREFIX_LIST_ENTRIES, (i + 1) * ${constant}_MAX_PREFIX_LIST_ENTRIES)`,
+      ');'
+    );
+  });
+
+  return lines;
+}
+
+export const cloudFormationFormatter: ExportFormatter = {
+  contentType: 'application/yaml; charset=utf-8',
+  extension: 'cfn.yaml',
+  render: (prefixes, context) => formatCloudFormation(context, uniqueCIDRsByFamily(prefixes), 'yaml'),
+};
+
+export const cloudFormationJsonFormatter: ExportFormatter = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'cfn.json',
+  render: (prefixes, context) => formatCloudFormation(context, uniqueCIDRsByFamily(prefixes), 'json'),
+};
+
+export const cdkTsFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'ts',
+  render: (prefixes, context) => formatCdkTs(context, uniqueCIDRsByFamily(prefixes)),
+};
\ No newline at end of file
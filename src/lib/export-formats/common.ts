@@ -0,0 +1,130 @@
+import { CombinedPrefix, ExportResponse, VersionRef } from '@/types';
+
+export interface ExportContext {
+  version: VersionRef;
+  filters: ExportResponse['filters'];
+  // Prefixes were merged into CIDR blocks, by aggregate=true or by excluding services
+  aggregated: boolean;
+  // Query parameters, for format-specific options such as set or chain names
+  options: URLSearchParams;
+}
+
+export interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  // Shown in the browser instead of downloaded
+  inline?: boolean;
+  render(prefixes: CombinedPrefix[], context: ExportContext): string[];
+}
+
+/**
+ * Thrown by formatters when a format option is invalid; the export route
+ * answers it with a 400
+ */
+export class ExportOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportOptionsError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ExportOptionsError.prototype);
+  }
+}
+
+/**
+ * Reads a free-form option, checking it against the characters the target syntax allows
+ */
+export function readOption(context: ExportContext, name: string, fallback: string, pattern: RegExp, hint: string): string {
+  const value = context.options.get(name);
+  if (value === null || value === '') return fallback;
+  if (!pattern.test(value)) {
+    throw new ExportOptionsError(`Invalid ${name} "${value}": ${hint}`);
+  }
+  return value;
+}
+
+/**
+ * Reads an option that must be one of a fixed set of values
+ */
+export function readChoice<T extends string>(context: ExportContext, name: string, choices: T[], fallback: T): T {
+  const value = context.options.get(name);
+  if (value === null || value === '') return fallback;
+  if (choices.indexOf(value as T) === -1) {
+    throw new ExportOptionsError(`Invalid ${name} "${value}": expected one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads the name option that resource names and identifiers are derived from
+ */
+export function readResourceName(context: ExportContext): string {
+  return readOption(context, 'name', 'aws-ip-ranges', /^[A-Za-z][A-Za-z0-9_-]{0,63}$/, 'start with a letter, then up to 63 letters, digits, "_" or "-"');
+}
+
+/**
+ * Removes line breaks and other control characters, so a value copied from
+ * the query into an export can't start a new line of live configuration
+ */
+export function stripControlCharacters(value: string): string {
+  return value.replace(/[\u0000-\u001f\u007f-\u009f\u2028\u2029]/g, '');
+}
+
+/**
+ * Describes where an export came from, one "key: value" line per fact
+ */
+export function describeExport(context: ExportContext): string[] {
+  const { version, filters } = context;
+  const list = (values: string[]) => values.length > 0 ? values.join(', ') : 'all';
+  const families = [filters.includeIPv4 && 'IPv4', filters.includeIPv6 && 'IPv6'].filter(Boolean).join(', ');
+
+  const lines = [
+    'AWS IP ranges exported by IPMapAWS',
+    `syncToken: ${version.syncToken}`,
+    `createDate: ${version.createDate}`,
+    `regions: ${list(filters.regions)}`,
+    `services: ${list(filters.services)}`,
+  ];
+  if (filters.excludeServices.length > 0) {
+    lines.push(`excludeServices: ${filters.excludeServices.join(', ')}`);
+  }
+  if (filters.searchTerm) {
+    lines.push(`searchTerm: ${filters.searchTerm} (${filters.matchMode})`);
+  }
+  lines.push(`families: ${families || 'none'}`);
+  if (context.aggregated) {
+    lines.push('aggregated: yes');
+  }
+
+  return lines.map(stripControlCharacters);
+}
+
+export function commentHeader(context: ExportContext, marker = '#'): string[] {
+  return describeExport(context).map((line) => `${marker} ${line}`);
+}
+
+/**
+ * CIDRs in their current order, each listed once even when several services share it
+ */
+export function uniqueCIDRs(prefixes: CombinedPrefix[]): string[] {
+  const seen = new Set<string>();
+  const cidrs: string[] = [];
+
+  prefixes.forEach((prefix) => {
+    if (!seen.has(prefix.prefix)) {
+      seen.add(prefix.prefix);
+      cidrs.push(prefix.prefix);
+    }
+  });
+
+  return cidrs;
+}
+
+/**
+ * Unique CIDRs split by address family
+ */
+export function uniqueCIDRsByFamily(prefixes: CombinedPrefix[]): { ipv4: string[]; ipv6: string[] } {
+  return {
+    ipv4: uniqueCIDRs(prefixes.filter((prefix) => prefix.type === 'ipv4')),
+    ipv6: uniqueCIDRs(prefixes.filter((prefix) => prefix.type === 'ipv6')),
+  };
+}
\ No newline at end of file
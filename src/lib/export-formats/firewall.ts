@@ -0,0 +1,151 @@
+import { aggregatePrefixes } from '@/lib/cidr-set';
+import { ExportContext, ExportFormatter, ExportOptionsError, commentHeader, readChoice, readOption, uniqueCIDRsByFamily } from './common';
+
+type Family = 'inet' | 'inet6';
+
+// ipset names are limited to 31 characters, and each set gets a "-v4-tmp" style suffix
+const SET_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,24}$/;
+const CHAIN_PATTERN = /^[A-Za-z0-9_-]{1,28}$/;
+const NFT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,26}$/;
+const BUILTIN_CHAINS = ['INPUT', 'OUTPUT', 'FORWARD'];
+const DEFAULT_MAXELEM = 65536;
+
+function readSetName(context: ExportContext): string {
+  return readOption(context, 'setName', 'aws-ip-ranges', SET_NAME_PATTERN, 'use up to 24 letters, digits, "_", "." or "-"');
+}
+
+function setNameFor(base: string, family: Family): string {
+  return `${base}-${family === 'inet' ? 'v4' : 'v6'}`;
+}
+
+function includedFamilies(context: ExportContext): Family[] {
+  const families: Family[] = [];
+  if (context.filters.includeIPv4) families.push('inet');
+  if (context.filters.includeIPv6) families.push('inet6');
+  return families;
+}
+
+/**
+ * ipset restore file with one hash:net set per address family. Each set is
+ * filled under a temporary name and swapped in, so reloading never leaves it empty.
+ */
+export function formatIpset(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }): string[] {
+  const base = readSetName(context);
+  const lines = commentHeader(context).concat('# Load with: ipset restore < this-file');
+
+  includedFamilies(context).forEach((family) => {
+    const name = setNameFor(base, family);
+    const entries = family === 'inet' ? cidrs.ipv4 : cidrs.ipv6;
+    const options = `hash:net family ${family} hashsize 1024 maxelem ${Math.max(DEFAULT_MAXELEM, entries.length)}`;
+
+    lines.push(
+      `create ${name} ${options} -exist`,
+      `create ${name}-tmp ${options} -exist`,
+      `flush ${name}-tmp`
+    );
+    entries.forEach((cidr) => lines.push(`add ${name}-tmp ${cidr}`));
+    lines.push(`swap ${name}-tmp ${name}`, `destroy ${name}-tmp`);
+  });
+
+  return lines;
+}
+
+/**
+ * iptables-restore (or ip6tables-restore) rules matching the ipset export
+ */
+export function formatIptables(context: ExportContext): string[] {
+  const families = includedFamilies(context);
+  const family = readChoice<Family>(context, 'family', ['inet', 'inet6'], families[0] || 'inet');
+  if (families.indexOf(family) === -1) {
+    throw new ExportOptionsError(`Invalid family "${family}": ${family === 'inet' ? 'IPv4' : 'IPv6'} is excluded by the filters`);
+  }
+
+  const set = setNameFor(readSetName(context), family);
+  const chain = readOption(context, 'chain', 'INPUT', CHAIN_PATTERN, 'use up to 28 letters, digits, "_" or "-"');
+  const target = readChoice(context, 'target', ['ACCEPT', 'DROP'], 'ACCEPT');
+  const direction = readChoice(context, 'direction', ['src', 'dst'], 'src');
+  const command = family === 'inet' ? 'iptables-restore' : 'ip6tables-restore';
+
+  const lines = commentHeader(context).concat(
+    `# Load the sets first (format=ipset), then: ${command} --noflush < this-file`,
+    '*filter'
+  );
+  // Declaring a custom chain flushes it, so reloading replaces the rule instead of adding a copy
+  if (BUILTIN_CHAINS.indexOf(chain) === -1) {
+    lines.push(`:${chain} - [0:0]`);
+  }
+  lines.push(`-A ${chain} -m set --match-set ${set} ${direction} -j ${target}`, 'COMMIT');
+
+  return lines;
+}
+
+/**
+ * nft -f script defining interval sets of the (aggregated) prefixes, and
+ * optionally a base chain using them. The table is deleted and recreated in
+ * the same transaction, so reloading replaces the sets atomically.
+ */
+export function formatNftables(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }): string[] {
+  const hint = 'start with a letter, then up to 26 letters, digits or "_"';
+  const table = readOption(context, 'table', 'aws_ip_ranges', NFT_NAME_PATTERN, hint);
+  const base = readOption(context, 'setName', 'aws', NFT_NAME_PATTERN, hint);
+  const rule = readChoice(context, 'rule', ['none', 'accept', 'drop'], 'none');
+  const direction = readChoice(context, 'direction', ['src', 'dst'], 'src');
+
+  const sets = includedFamilies(context).map((family) => family === 'inet'
+    ? { name: `${base}_ipv4`, type: 'ipv4_addr', match: 'ip', entries: cidrs.ipv4 }
+    : { name: `${base}_ipv6`, type: 'ipv6_addr', match: 'ip6', entries: cidrs.ipv6 });
+
+  const lines = ['#!/usr/sbin/nft -f'].concat(
+    commentHeader(context),
+    '# Load with: nft -f this-file',
+    `table inet ${table}`,
+    `delete table inet ${table}`,
+    `table inet ${table} {`
+  );
+
+  sets.forEach((set, index) => {
+    if (index > 0) lines.push('');
+    lines.push(`\tset ${set.name} {`, `\t\ttype ${set.type}`, '\t\tflags interval', '\t\tauto-merge');
+    // nft rejects an empty element list, so an empty set is declared without one
+    if (set.entries.length > 0) {
+      lines.push('\t\telements = {');
+      set.entries.forEach((cidr, i) => lines.push(`\t\t\t${cidr}${i < set.entries.length - 1 ? ',' : ''}`));
+      lines.push('\t\t}');
+    }
+    lines.push('\t}');
+  });
+
+  if (rule !== 'none') {
+    const address = direction === 'src' ? 'saddr' : 'daddr';
+    const hook = direction === 'src' ? 'input' : 'output';
+    lines.push(
+      '',
+      `\tchain ${hook} {`,
+      `\t\ttype filter hook ${hook} priority filter; policy accept;`
+    );
+    sets.forEach((set) => lines.push(`\t\t${set.match} ${address} @${set.name} ${rule}`));
+    lines.push('\t}');
+  }
+
+  lines.push('}');
+  return lines;
+}
+
+export const ipsetFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'ipset',
+  render: (prefixes, context) => formatIpset(context, uniqueCIDRsByFamily(prefixes)),
+};
+
+export const iptablesFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'rules',
+  render: (_prefixes, context) => formatIptables(context),
+};
+
+export const nftablesFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'nft',
+  // Interval sets can't hold overlapping elements, so always merge them first
+  render: (prefixes, context) => formatNftables(context, uniqueCIDRsByFamily(aggregatePrefixes(prefixes))),
+};
\ No newline at end of file
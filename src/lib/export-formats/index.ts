@@ -0,0 +1,91 @@
+import { ExportFormat, VersionRef } from '@/types';
+import { ExportFormatter } from './common';
+import { csvFormatter, ndjsonFormatter, txtFormatter } from './text';
+import { ipsetFormatter, iptablesFormatter, nftablesFormatter } from './firewall';
+import { prefixListFormatter, securityGroupFormatter } from './aws';
+import { terraformFormatter } from './terraform';
+import { cdkTsFormatter, cloudFormationFormatter, cloudFormationJsonFormatter } from './cloudformation';
+import { calicoFormatter, ciliumFormatter, networkPolicyFormatter } from './kubernetes';
+import { apacheFormatter, caddyFormatter, haproxyFormatter, nginxFormatter, nginxGeoFormatter } from './proxy';
+import { ciscoFormatter, juniperFormatter, mikrotikFormatter, pfFormatter } from './network';
+
+export * from './common';
+export { formatCsv, formatNdjson, formatTxt } from './text';
+export { formatIpset, formatIptables, formatNftables } from './firewall';
+export { formatPrefixLists, formatSecurityGroups } from './aws';
+export { formatTerraform } from './terraform';
+export { formatCdkTs, formatCloudFormation } from './cloudformation';
+export { formatCalicoNetworkSet, formatCiliumPolicy, formatNetworkPolicy } from './kubernetes';
+export { formatApache, formatCaddy, formatHAProxy, formatNginx, formatNginxGeo } from './proxy';
+export { formatCisco, formatJuniper, formatMikroTik, formatPf } from './network';
+export { toYamlLines } from './yaml';
+
+export type StreamedExportFormat = Exclude<ExportFormat, 'json'>;
+
+// Every format the export route can stream, besides the JSON envelope
+export const EXPORT_FORMATTERS: Record<StreamedExportFormat, ExportFormatter> = {
+  txt: txtFormatter,
+  csv: csvFormatter,
+  ndjson: ndjsonFormatter,
+  ipset: ipsetFormatter,
+  iptables: iptablesFormatter,
+  nftables: nftablesFormatter,
+  'prefix-list': prefixListFormatter,
+  'security-group': securityGroupFormatter,
+  terraform: terraformFormatter,
+  cloudformation: cloudFormationFormatter,
+  'cloudformation-json': cloudFormationJsonFormatter,
+  'cdk-ts': cdkTsFormatter,
+  k8s: networkPolicyFormatter,
+  cilium: ciliumFormatter,
+  calico: calicoFormatter,
+  nginx: nginxFormatter,
+  'nginx-geo': nginxGeoFormatter,
+  haproxy: haproxyFormatter,
+  apache: apacheFormatter,
+  caddy: caddyFormatter,
+  cisco: ciscoFormatter,
+  juniper: juniperFormatter,
+  mikrotik: mikrotikFormatter,
+  pf: pfFormatter,
+};
+
+export const EXPORT_FORMATS = ['json'].concat(Object.keys(EXPORT_FORMATTERS)) as ExportFormat[];
+
+// Lines per chunk when streaming a text export
+const STREAM_CHUNK_LINES = 1000;
+
+/**
+ * Reads the format query parameter; null when the value isn't a known format
+ */
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  if (!value) return 'json';
+  return EXPORT_FORMATS.indexOf(value as ExportFormat) !== -1 ? value as ExportFormat : null;
+}
+
+/**
+ * Download filename for an export of the given version
+ */
+export function exportFilename(version: VersionRef, format: StreamedExportFormat): string {
+  return `aws-ip-ranges-${version.syncToken}.${EXPORT_FORMATTERS[format].extension}`;
+}
+
+/**
+ * Streams lines as a newline-terminated UTF-8 body, a chunk at a time
+ */
+export function streamLines(lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= lines.length) {
+        controller.close();
+        return;
+      }
+      const chunk = lines.slice(offset, offset + STREAM_CHUNK_LINES);
+      offset += STREAM_CHUNK_LINES;
+      controller.enqueue(encoder.encode(chunk.join('\n') + '\n'));
+    },
+  });
+}
\ No newline at end of file
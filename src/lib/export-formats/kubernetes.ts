@@ -0,0 +1,162 @@
+import { CombinedPrefix } from '@/types';
+import { compareCIDRs } from '@/lib/ip';
+import { ExportContext, ExportFormatter, ExportOptionsError, commentHeader, readChoice, readOption, uniqueCIDRs } from './common';
+import { YamlValue, toYamlLines } from './yaml';
+
+// RFC 1123 label, as Kubernetes requires for names and namespaces
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/;
+const LABEL_KEY = /^([a-z0-9]([-a-z0-9.]{0,251}[a-z0-9])?\/)?[A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?$/;
+const LABEL_VALUE = /^([A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?)?$/;
+
+const DEFAULT_LABELS = { 'app.kubernetes.io/managed-by': 'ipmapaws' };
+
+// Cluster DNS as deployed by kubeadm, EKS and most distributions (CoreDNS keeps the kube-dns label)
+const DNS_NAMESPACE = 'kube-system';
+const DNS_LABELS = { 'k8s-app': 'kube-dns' };
+const DNS_NOTE = `# Also allows DNS to ${DNS_LABELS['k8s-app']} pods in ${DNS_NAMESPACE} on port 53, which resolving AWS hostnames needs; dns=false leaves it out`;
+
+interface ManifestOptions {
+  name: string;
+  namespace: string;
+  labels: { [key: string]: string };
+  podSelector: { [key: string]: string };
+  dns: boolean;
+}
+
+/**
+ * Parses "key=value,key=value" label lists, checking Kubernetes' label syntax
+ */
+function readLabels(context: ExportContext, name: string): { [key: string]: string } | null {
+  const value = context.options.get(name);
+  if (!value) return null;
+
+  return value.split(',').filter(Boolean).reduce<{ [key: string]: string }>((labels, pair) => {
+    const [key, label = '', ...rest] = pair.split('=');
+    if (rest.length > 0 || !LABEL_KEY.test(key) || !LABEL_VALUE.test(label)) {
+      throw new ExportOptionsError(`Invalid ${name} "${pair}": use key=value pairs that are valid Kubernetes labels`);
+    }
+    labels[key] = label;
+    return labels;
+  }, {});
+}
+
+function readManifestOptions(context: ExportContext): ManifestOptions {
+  const hint = 'use a lowercase RFC 1123 label: up to 63 letters, digits or "-"';
+  return {
+    name: readOption(context, 'name', 'aws-ip-ranges', DNS_LABEL, hint),
+    namespace: readOption(context, 'namespace', 'default', DNS_LABEL, hint),
+    labels: readLabels(context, 'labels') || DEFAULT_LABELS,
+    podSelector: readLabels(context, 'podSelector') || {},
+    dns: readChoice(context, 'dns', ['true', 'false'], 'true') === 'true',
+  };
+}
+
+/**
+ * CIDRs of the included families, each once, in address order
+ */
+function sortedCIDRs(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  return uniqueCIDRs(prefixes.filter((prefix) => prefix.type === 'ipv4' ? context.filters.includeIPv4 : context.filters.includeIPv6))
+    .sort(compareCIDRs);
+}
+
+function selector(matchLabels: { [key: string]: string }): YamlValue {
+  return Object.keys(matchLabels).length > 0 ? { matchLabels } : {};
+}
+
+function manifest(context: ExportContext, resource: { [key: string]: YamlValue }, notes: string[] = []): string[] {
+  return commentHeader(context).concat(notes, toYamlLines(resource));
+}
+
+/**
+ * networking.k8s.io/v1 NetworkPolicy allowing egress from the selected pods
+ * to each CIDR as an ipBlock, plus DNS to kube-dns unless dns=false. Without
+ * CIDRs the CIDR rule is left out, since an empty "to" would allow every
+ * destination.
+ */
+export function formatNetworkPolicy(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const options = readManifestOptions(context);
+  const cidrs = sortedCIDRs(prefixes, context);
+
+  const egress: YamlValue[] = cidrs.length > 0 ? [{ to: cidrs.map((cidr) => ({ ipBlock: { cidr } })) }] : [];
+  if (options.dns) {
+    egress.push({
+      to: [{
+        namespaceSelector: { matchLabels: { 'kubernetes.io/metadata.name': DNS_NAMESPACE } },
+        podSelector: { matchLabels: DNS_LABELS },
+      }],
+      ports: [{ protocol: 'UDP', port: 53 }, { protocol: 'TCP', port: 53 }],
+    });
+  }
+
+  return manifest(context, {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'NetworkPolicy',
+    metadata: { name: options.name, namespace: options.namespace, labels: options.labels },
+    spec: {
+      podSelector: selector(options.podSelector),
+      policyTypes: ['Egress'],
+      egress,
+    },
+  }, options.dns ? [DNS_NOTE] : []);
+}
+
+/**
+ * cilium.io/v2 CiliumNetworkPolicy allowing egress from the selected
+ * endpoints to the CIDRs through toCIDRSet, plus DNS to kube-dns unless
+ * dns=false
+ */
+export function formatCiliumPolicy(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const options = readManifestOptions(context);
+  const cidrs = sortedCIDRs(prefixes, context);
+
+  const egress: YamlValue[] = cidrs.length > 0 ? [{ toCIDRSet: cidrs.map((cidr) => ({ cidr })) }] : [];
+  if (options.dns) {
+    egress.push({
+      toEndpoints: [{ matchLabels: { 'k8s:io.kubernetes.pod.namespace': DNS_NAMESPACE, ...DNS_LABELS } }],
+      toPorts: [{ ports: [{ port: '53', protocol: 'UDP' }, { port: '53', protocol: 'TCP' }] }],
+    });
+  }
+
+  return manifest(context, {
+    apiVersion: 'cilium.io/v2',
+    kind: 'CiliumNetworkPolicy',
+    metadata: { name: options.name, namespace: options.namespace, labels: options.labels },
+    spec: {
+      endpointSelector: selector(options.podSelector),
+      egress,
+    },
+  }, options.dns ? [DNS_NOTE] : []);
+}
+
+/**
+ * projectcalico.org/v3 GlobalNetworkSet of the CIDRs. It is cluster-wide, so
+ * the namespace option doesn't apply; policies select it by its labels.
+ */
+export function formatCalicoNetworkSet(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const options = readManifestOptions(context);
+
+  return manifest(context, {
+    apiVersion: 'projectcalico.org/v3',
+    kind: 'GlobalNetworkSet',
+    metadata: { name: options.name, labels: options.labels },
+    spec: { nets: sortedCIDRs(prefixes, context) },
+  });
+}
+
+export const networkPolicyFormatter: ExportFormatter = {
+  contentType: 'application/yaml; charset=utf-8',
+  extension: 'networkpolicy.yaml',
+  render: formatNetworkPolicy,
+};
+
+export const ciliumFormatter: ExportFormatter = {
+  contentType: 'application/yaml; charset=utf-8',
+  extension: 'cilium.yaml',
+  render: formatCiliumPolicy,
+};
+
+export const calicoFormatter: ExportFormatter = {
+  contentType: 'application/yaml; charset=utf-8',
+  extension: 'calico.yaml',
+  render: formatCalicoNetworkSet,
+};
\ No newline at end of file
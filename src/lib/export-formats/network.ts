@@ -0,0 +1,121 @@
+import { ipv4Netmask, ipv4Wildcard } from '@/lib/ip';
+import { ExportContext, ExportFormatter, commentHeader, readChoice, readOption, readResourceName, uniqueCIDRsByFamily } from './common';
+
+/**
+ * Configuration for on-premises routers and firewalls. CIDRs keep the
+ * export's sort order, IPv4 before IPv6.
+ */
+
+type FamilyCIDRs = { ipv4: string[]; ipv6: string[] };
+
+function includedCIDRs(context: ExportContext, cidrs: FamilyCIDRs): FamilyCIDRs {
+  return {
+    ipv4: context.filters.includeIPv4 ? cidrs.ipv4 : [],
+    ipv6: context.filters.includeIPv6 ? cidrs.ipv6 : [],
+  };
+}
+
+function splitCIDR(cidr: string): { address: string; prefixLength: number } {
+  const [address, length] = cidr.split('/');
+  return { address, prefixLength: parseInt(length, 10) };
+}
+
+/**
+ * Cisco object-groups and prefix-lists. IOS object-groups take network and
+ * netmask (and are IPv4 only); NX-OS ones take a wildcard mask for IPv4.
+ */
+export function formatCisco(context: ExportContext, cidrs: FamilyCIDRs): string[] {
+  const name = readResourceName(context);
+  const platform = readChoice(context, 'platform', ['ios', 'nxos'], 'ios');
+  const { ipv4, ipv6 } = includedCIDRs(context, cidrs);
+  const lines = commentHeader(context, '!').concat('! Entries are added to existing groups and lists; remove those first to replace them');
+
+  if (platform === 'ios') {
+    if (ipv4.length > 0) {
+      lines.push(`object-group network ${name}`);
+      ipv4.forEach((cidr) => {
+        const { address, prefixLength } = splitCIDR(cidr);
+        lines.push(prefixLength === 32 ? ` host ${address}` : ` ${address} ${ipv4Netmask(prefixLength)}`);
+      });
+      lines.push('!');
+    }
+  } else {
+    if (ipv4.length > 0) {
+      lines.push(`object-group ip address ${name}`);
+      ipv4.forEach((cidr, index) => {
+        const { address, prefixLength } = splitCIDR(cidr);
+        lines.push(`  ${(index + 1) * 10} ${address} ${ipv4Wildcard(prefixLength)}`);
+      });
+    }
+    if (ipv6.length > 0) {
+      lines.push(`object-group ipv6 address ${name}`);
+      ipv6.forEach((cidr, index) => lines.push(`  ${(index + 1) * 10} ${cidr}`));
+    }
+    lines.push('!');
+  }
+
+  ipv4.forEach((cidr, index) => lines.push(`ip prefix-list ${name} seq ${(index + 1) * 5} permit ${cidr}`));
+  ipv6.forEach((cidr, index) => lines.push(`ipv6 prefix-list ${name} seq ${(index + 1) * 5} permit ${cidr}`));
+
+  return lines;
+}
+
+/**
+ * Junos set commands for a policy-options prefix-list (both families in one
+ * list). The list is deleted first, so a commit replaces it in one step.
+ */
+export function formatJuniper(context: ExportContext, cidrs: FamilyCIDRs): string[] {
+  const name = readResourceName(context);
+  const { ipv4, ipv6 } = includedCIDRs(context, cidrs);
+
+  return commentHeader(context).concat(
+    '# Load with: load set terminal (or load set <file>), then commit',
+    `delete policy-options prefix-list ${name}`,
+    ipv4.concat(ipv6).map((cidr) => `set policy-options prefix-list ${name} ${cidr}`)
+  );
+}
+
+/**
+ * RouterOS script replacing the entries of an IPv4 and an IPv6 firewall address list
+ */
+export function formatMikroTik(context: ExportContext, cidrs: FamilyCIDRs): string[] {
+  const name = readResourceName(context);
+  const { ipv4, ipv6 } = includedCIDRs(context, cidrs);
+  const lines = commentHeader(context).concat('# Run with: /import file-name=aws-ip-ranges.rsc');
+
+  [{ menu: '/ip firewall address-list', entries: ipv4, included: context.filters.includeIPv4 },
+    { menu: '/ipv6 firewall address-list', entries: ipv6, included: context.filters.includeIPv6 }].forEach(({ menu, entries, included }) => {
+    if (!included) return;
+    lines.push(menu, `remove [find list="${name}"]`);
+    entries.forEach((cidr) => lines.push(`add list="${name}" address=${cidr}`));
+  });
+
+  return lines;
+}
+
+/**
+ * pf table file, one address per line, for "table <name> persist file" or
+ * pfctl -T replace
+ */
+export function formatPf(context: ExportContext, cidrs: FamilyCIDRs): string[] {
+  const table = readOption(context, 'name', 'aws_ip_ranges', /^[A-Za-z][A-Za-z0-9_-]{0,30}$/, 'start with a letter, then up to 30 letters, digits, "_" or "-"');
+  const { ipv4, ipv6 } = includedCIDRs(context, cidrs);
+  const file = `/etc/pf.${table}`;
+
+  return commentHeader(context).concat(
+    `# In pf.conf: table <${table}> persist file "${file}"`,
+    `# Reload without restarting pf: pfctl -t ${table} -T replace -f ${file}`,
+    ipv4.concat(ipv6)
+  );
+}
+
+const text = (extension: string, render: (context: ExportContext, cidrs: FamilyCIDRs) => string[]): ExportFormatter => ({
+  contentType: 'text/plain; charset=utf-8',
+  extension,
+  render: (prefixes, context) => render(context, uniqueCIDRsByFamily(prefixes)),
+});
+
+export const ciscoFormatter = text('cisco.txt', formatCisco);
+export const juniperFormatter = text('junos.set', formatJuniper);
+export const mikrotikFormatter = text('rsc', formatMikroTik);
+export const pfFormatter = text('pf', formatPf);
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { CombinedPrefix } from '@/types';
+import { ExportContext, ExportFormatter, commentHeader, readChoice, readResourceName, uniqueCIDRs } from './common';
+
+/**
+ * Include files and snippets for reverse proxies. CIDRs keep the export's sort
+ * order, each listed once.
+ */
+
+function readMode(context: ExportContext): 'allow' | 'deny' {
+  return readChoice(context, 'mode', ['allow', 'deny'], 'allow');
+}
+
+// Variable and matcher names can't contain "-"
+function identifier(context: ExportContext): string {
+  return readResourceName(context).replace(/-/g, '_');
+}
+
+/**
+ * nginx allow/deny directives for an include in http, server or location
+ * context. In allow mode everything else is denied.
+ */
+export function formatNginx(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const mode = readMode(context);
+  const lines = commentHeader(context).concat(
+    '# Use with: include /etc/nginx/aws-ip-ranges.conf;',
+    uniqueCIDRs(prefixes).map((cidr) => `${mode} ${cidr};`)
+  );
+  return mode === 'allow' ? lines.concat('deny all;') : lines;
+}
+
+/**
+ * nginx geo block (http context) setting a variable to 1 for matching clients
+ */
+export function formatNginxGeo(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const variable = `$${identifier(context)}`;
+
+  return commentHeader(context).concat(
+    `# Use in a server block: if (${variable} = 0) { return 403; }`,
+    `geo ${variable} {`,
+    '    default 0;',
+    uniqueCIDRs(prefixes).map((cidr) => `    ${cidr} 1;`),
+    '}'
+  );
+}
+
+/**
+ * HAProxy ACL pattern file: one CIDR per line
+ */
+export function formatHAProxy(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  return commentHeader(context).concat(
+    '# Use with: acl from_aws src -f /etc/haproxy/aws-ip-ranges.acl',
+    '#           http-request deny unless from_aws',
+    uniqueCIDRs(prefixes)
+  );
+}
+
+/**
+ * Apache 2.4 authorization block: any matching address in allow mode, or
+ * everyone except matching addresses in deny mode
+ */
+export function formatApache(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const mode = readMode(context);
+  const cidrs = uniqueCIDRs(prefixes);
+  const lines = commentHeader(context).concat('# Use with: Include /etc/apache2/aws-ip-ranges.conf (inside <Directory> or <Location>)');
+
+  return mode === 'allow'
+    ? lines.concat('<RequireAny>', cidrs.map((cidr) => `    Require ip ${cidr}`), '</RequireAny>')
+    : lines.concat('<RequireAll>', '    Require all granted', cidrs.map((cidr) => `    Require not ip ${cidr}`), '</RequireAll>');
+}
+
+/**
+ * Caddyfile named matcher. Repeated remote_ip lines are OR'ed together.
+ */
+export function formatCaddy(prefixes: CombinedPrefix[], context: ExportContext): string[] {
+  const matcher = `@${identifier(context)}`;
+
+  return commentHeader(context).concat(
+    `# Import into a site block, then use it: handle ${matcher} { ... } and handle { abort }`,
+    `${matcher} {`,
+    uniqueCIDRs(prefixes).map((cidr) => `\tremote_ip ${cidr}`),
+    '}'
+  );
+}
+
+const text = (extension: string, render: ExportFormatter['render']): ExportFormatter => ({
+  contentType: 'text/plain; charset=utf-8',
+  extension,
+  render,
+});
+
+export const nginxFormatter = text('nginx.conf', formatNginx);
+export const nginxGeoFormatter = text('geo.conf', formatNginxGeo);
+export const haproxyFormatter = text('acl', formatHAProxy);
+export const apacheFormatter = text('apache.conf', formatApache);
+export const caddyFormatter = text('caddy', formatCaddy);
\ No newline at end of file
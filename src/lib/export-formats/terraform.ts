@@ -0,0 +1,121 @@
+import { compareCIDRs } from '@/lib/ip';
+import { ExportContext, ExportFormatter, commentHeader, readChoice, readOption, readResourceName, uniqueCIDRsByFamily } from './common';
+import { DEFAULT_RULES_PER_GROUP, readIngressRule, readLimit } from './aws';
+
+// Entries per managed prefix list (the default EC2 quota)
+const MAX_PREFIX_LIST_ENTRIES = 1000;
+
+/**
+ * Formats "key = value" lines with the equals signs aligned, as terraform fmt does
+ */
+function attributes(pairs: Array<[string, string]>, indent: string): string[] {
+  const width = Math.max.apply(null, pairs.map(([key]) => key.length));
+  return pairs.map(([key, value]) => `${indent}${key}${' '.repeat(width - key.length)} = ${value}`);
+}
+
+function stringList(values: string[], indent: string): string[] {
+  if (values.length === 0) return ['[]'];
+  return ['['].concat(values.map((value) => `${indent}  "${value}",`), `${indent}]`);
+}
+
+/**
+ * HCL for Terraform and OpenTofu: a locals list of CIDRs per address family,
+ * and managed prefix lists plus security group rules built from them. CIDRs
+ * are always in address order, so a new sync only changes the lines that
+ * actually changed. Every list is sized to maxEntries, so lists don't need
+ * replacing as a sync moves CIDRs between chunks; with security group rules
+ * that defaults to the per-group rules quota.
+ */
+export function formatTerraform(context: ExportContext, cidrs: { ipv4: string[]; ipv6: string[] }): string[] {
+  const name = readResourceName(context);
+  const resources = readChoice(context, 'resources', ['all', 'prefix-list', 'none'], 'all');
+  const maxEntries = readLimit(context, 'maxEntries', resources === 'all' ? DEFAULT_RULES_PER_GROUP : MAX_PREFIX_LIST_ENTRIES, MAX_PREFIX_LIST_ENTRIES);
+  const securityGroupId = readOption(context, 'securityGroupId', '', /^sg-[0-9a-f]{8,17}$/, 'use a security group id such as sg-0123456789abcdef0');
+  const rule = readIngressRule(context);
+
+  const id = name.replace(/-/g, '_');
+  const families = [
+    { type: 'ipv4', addressFamily: 'IPv4', included: context.filters.includeIPv4, cidrs: cidrs.ipv4 },
+    { type: 'ipv6', addressFamily: 'IPv6', included: context.filters.includeIPv6, cidrs: cidrs.ipv6 },
+  ].filter((family) => family.included);
+
+  const lines = commentHeader(context);
+  if (resources === 'all') {
+    lines.push(
+      `# Each rule counts as ${maxEntries} rules against the security group's quota (${DEFAULT_RULES_PER_GROUP} per address family by default);`,
+      '# a family with more CIDRs than the quota needs a quota increase or several security groups'
+    );
+  }
+  lines.push('', 'locals {');
+  families.forEach((family) => {
+    const [first, ...rest] = stringList(family.cidrs.slice().sort(compareCIDRs), '  ');
+    lines.push(`  ${id}_${family.type} = ${first}`, ...rest);
+  });
+  if (resources !== 'none') {
+    families.forEach((family) => {
+      lines.push(`  ${id}_${family.type}_chunks = chunklist(local.${id}_${family.type}, ${maxEntries})`);
+    });
+  }
+  lines.push('}');
+
+  if (resources === 'none') return lines;
+
+  if (resources === 'all' && !securityGroupId) {
+    lines.push(
+      '',
+      `variable "${id}_security_group_id" {`,
+      ...attributes([['description', `"Security group the ${name} rules are added to"`], ['type', 'string']], '  '),
+      '}'
+    );
+  }
+
+  families.forEach((family) => {
+    const resource = `${id}_${family.type}`;
+    const chunks = `local.${resource}_chunks`;
+
+    lines.push(
+      '',
+      `resource "aws_ec2_managed_prefix_list" "${resource}" {`,
+      ...attributes([
+        ['count', `length(${chunks})`],
+        ['name', `"${name}-${family.type}-\${count.index + 1}"`],
+        ['address_family', `"${family.addressFamily}"`],
+        ['max_entries', String(maxEntries)],
+      ], '  '),
+      '',
+      '  dynamic "entry" {',
+      `    for_each = ${chunks}[count.index]`,
+      '    content {',
+      '      cidr = entry.value',
+      '    }',
+      '  }',
+      '}'
+    );
+
+    if (resources === 'all') {
+      lines.push(
+        '',
+        `resource "aws_security_group_rule" "${resource}" {`,
+        ...attributes([
+          ['count', `length(aws_ec2_managed_prefix_list.${resource})`],
+          ['type', '"ingress"'],
+          ['protocol', `"${rule.protocol}"`],
+          ['from_port', String(rule.fromPort)],
+          ['to_port', String(rule.toPort)],
+          ['prefix_list_ids', `[aws_ec2_managed_prefix_list.${resource}[count.index].id]`],
+          ['security_group_id', securityGroupId ? `"${securityGroupId}"` : `var.${id}_security_group_id`],
+          ['description', `"${name}-${family.type}-\${count.index + 1}"`],
+        ], '  '),
+        '}'
+      );
+    }
+  });
+
+  return lines;
+}
+
+export const terraformFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'tf',
+  render: (prefixes, context) => formatTerraform(context, uniqueCIDRsByFamily(prefixes)),
+};
\ No newline at end of file
@@ -0,0 +1,55 @@
+import Papa from 'papaparse';
+import { CombinedPrefix } from '@/types';
+import { ExportContext, ExportFormatter, commentHeader, uniqueCIDRs } from './common';
+
+const CSV_COLUMNS: Array<keyof CombinedPrefix> = ['prefix', 'region', 'service', 'network_border_group', 'type'];
+
+/**
+ * One CIDR per line, optionally preceded by # comments describing the export
+ */
+export function formatTxt(prefixes: CombinedPrefix[], context: ExportContext, comments: boolean): string[] {
+  const header = comments ? commentHeader(context) : [];
+  return header.concat(uniqueCIDRs(prefixes));
+}
+
+/**
+ * CSV with a header row and one row per entry
+ */
+export function formatCsv(prefixes: CombinedPrefix[]): string[] {
+  return [CSV_COLUMNS.join(',')].concat(
+    prefixes.map((prefix) => Papa.unparse([prefix], { header: false, columns: CSV_COLUMNS as string[] }))
+  );
+}
+
+/**
+ * Newline-delimited JSON: one entry object per line
+ */
+export function formatNdjson(prefixes: CombinedPrefix[]): string[] {
+  return prefixes.map((prefix) => JSON.stringify({
+    prefix: prefix.prefix,
+    region: prefix.region,
+    service: prefix.service,
+    network_border_group: prefix.network_border_group,
+    type: prefix.type,
+  }));
+}
+
+// Plain CIDR list for curl, xargs and tools that consume IP list URLs
+export const txtFormatter: ExportFormatter = {
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'txt',
+  inline: true,
+  render: (prefixes, context) => formatTxt(prefixes, context, context.options.get('comments') === 'true'),
+};
+
+export const csvFormatter: ExportFormatter = {
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  render: (prefixes) => formatCsv(prefixes),
+};
+
+export const ndjsonFormatter: ExportFormatter = {
+  contentType: 'application/x-ndjson; charset=utf-8',
+  extension: 'ndjson',
+  render: (prefixes) => formatNdjson(prefixes),
+};
\ No newline at end of file
@@ -0,0 +1,56 @@
+/**
+ * Minimal block-style YAML emitter for the templates and manifests the export
+ * formats produce: nested objects, arrays, strings, numbers and booleans.
+ */
+
+export type YamlValue = string | number | boolean | YamlValue[] | { [key: string]: YamlValue };
+
+// Strings that YAML would read as something else (numbers, dates, booleans, null) are quoted
+const PLAIN_STRING = /^[A-Za-z][A-Za-z0-9_./-]*$/;
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|null|y|n)$/i;
+
+function isScalar(value: YamlValue): value is string | number | boolean {
+  return typeof value !== 'object';
+}
+
+function scalar(value: string | number | boolean): string {
+  if (typeof value !== 'string') return String(value);
+  if (PLAIN_STRING.test(value) && !RESERVED_WORDS.test(value)) return value;
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function emptyCollection(value: YamlValue): string | null {
+  if (Array.isArray(value)) return value.length === 0 ? '[]' : null;
+  if (typeof value === 'object') return Object.keys(value).length === 0 ? '{}' : null;
+  return null;
+}
+
+/**
+ * Serializes a value as YAML lines, indented two spaces per level
+ */
+export function toYamlLines(value: YamlValue, indent = ''): string[] {
+  if (isScalar(value)) {
+    return [`${indent}${scalar(value)}`];
+  }
+
+  if (Array.isArray(value)) {
+    return value.reduce<string[]>((lines, item) => {
+      if (isScalar(item) || emptyCollection(item)) {
+        return lines.concat(`${indent}- ${isScalar(item) ? scalar(item) : emptyCollection(item)}`);
+      }
+      // The first line of a nested item shares the "- " line
+      const nested = toYamlLines(item, indent + '  ');
+      nested[0] = `${indent}- ${nested[0].slice(indent.length + 2)}`;
+      return lines.concat(nested);
+    }, []);
+  }
+
+  return Object.keys(value).reduce<string[]>((lines, key) => {
+    const item = value[key];
+    const inline = isScalar(item) ? scalar(item) : emptyCollection(item);
+    if (inline !== null) {
+      return lines.concat(`${indent}${key}: ${inline}`);
+    }
+    return lines.concat(`${indent}${key}:`, toYamlLines(item, indent + '  '));
+  }, []);
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { AWSIPRanges, FeedIssue, FeedValidationReport } from '@/types';
+import { IPVersion, normalizeCIDR } from '@/lib/ip';
+
+interface FeedEntry {
+  region: string;
+  service: string;
+}
+
+/**
+ * Validates and normalizes the prefixes of one feed list. Valid entries are
+ * rewritten to canonical form; entries that don't parse, or belong to the
+ * other address family, are dropped. Every change is recorded as an issue.
+ */
+function validateEntries<T extends FeedEntry>(
+  entries: T[],
+  field: 'ip_prefix' | 'ipv6_prefix',
+  expectedType: IPVersion,
+  getPrefix: (entry: T) => string,
+  issues: FeedIssue[]
+): T[] {
+  const result: T[] = [];
+
+  entries.forEach((entry) => {
+    const value = getPrefix(entry);
+    const issue = { field, value, region: entry.region, service: entry.service };
+    const normalized = typeof value === 'string' ? normalizeCIDR(value) : null;
+
+    if (!normalized) {
+      issues.push({ ...issue, kind: 'invalid' });
+      return;
+    }
+    if (normalized.type !== expectedType) {
+      issues.push({ ...issue, kind: 'wrong-family' });
+      return;
+    }
+
+    if (normalized.hostBitsSet) {
+      issues.push({ ...issue, kind: 'host-bits', normalized: normalized.cidr });
+    } else if (!normalized.canonical) {
+      issues.push({ ...issue, kind: 'non-canonical', normalized: normalized.cidr });
+    }
+
+    result.push({ ...entry, [field]: normalized.cidr });
+  });
+
+  return result;
+}
+
+/**
+ * Checks every prefix in an upstream AWS feed, returning a copy with all
+ * prefixes in canonical form together with a report of what was changed or dropped
+ */
+export function validateAWSIPRanges(data: AWSIPRanges): {
+  data: AWSIPRanges;
+  report: FeedValidationReport;
+} {
+  const issues: FeedIssue[] = [];
+
+  const prefixes = validateEntries(data.prefixes, 'ip_prefix', 'ipv4', (entry) => entry.ip_prefix, issues);
+  const ipv6Prefixes = validateEntries(data.ipv6_prefixes, 'ipv6_prefix', 'ipv6', (entry) => entry.ipv6_prefix, issues);
+
+  const dropped = issues.filter((issue) => !issue.normalized).length;
+
+  return {
+    data: {
+      ...data,
+      prefixes,
+      ipv6_prefixes: ipv6Prefixes,
+    },
+    report: {
+      syncToken: data.syncToken,
+      createDate: data.createDate,
+      checkedAt: new Date().toISOString(),
+      total: data.prefixes.length + data.ipv6_prefixes.length,
+      normalized: issues.length - dropped,
+      dropped,
+      issues,
+    },
+  };
+}
\ No newline at end of file
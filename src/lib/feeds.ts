@@ -0,0 +1,156 @@
+import { ChangeLogEntry, CombinedPrefix } from '@/types';
+import { filterDiff } from '@/lib/diff';
+import { parseAWSCreateDate } from '@/lib/utils';
+
+export interface FeedFilters {
+  regions: string[];
+  services: string[];
+}
+
+export interface FeedOptions {
+  baseUrl: string;
+  // Path of the feed itself, e.g. /feeds/changes.atom
+  path: string;
+  filters: FeedFilters;
+}
+
+// Feeds stay readable for big publishes; the full list is one click away
+const MAX_LISTED_PREFIXES = 50;
+const MAX_FEED_ENTRIES = 50;
+
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Entries are dated by AWS publish time, falling back to when the sync noticed it
+function entryDate(entry: ChangeLogEntry): Date {
+  return parseAWSCreateDate(entry.to.createDate) || new Date(entry.detectedAt);
+}
+
+function filterQuery(filters: FeedFilters): string {
+  const params = new URLSearchParams();
+  if (filters.regions.length > 0) params.set('regions', filters.regions.join(','));
+  if (filters.services.length > 0) params.set('services', filters.services.join(','));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+function feedTitle(filters: FeedFilters): string {
+  const scope = filters.regions.concat(filters.services);
+  return scope.length > 0
+    ? `AWS IP range changes (${scope.join(', ')})`
+    : 'AWS IP range changes';
+}
+
+function entryTitle(entry: ChangeLogEntry): string {
+  const { added, removed, changed } = entry.summary;
+  return `AWS IP ranges ${entry.to.createDate}: ${added} added, ${removed} removed, ${changed} changed`;
+}
+
+function listPrefixes(heading: string, prefixes: CombinedPrefix[]): string[] {
+  if (prefixes.length === 0) return [];
+
+  const lines = prefixes
+    .slice(0, MAX_LISTED_PREFIXES)
+    .map((prefix) => `  ${prefix.prefix} ${prefix.service} ${prefix.region}`);
+  if (prefixes.length > MAX_LISTED_PREFIXES) {
+    lines.push(`  ...and ${prefixes.length - MAX_LISTED_PREFIXES} more`);
+  }
+  return [`${heading} (${prefixes.length}):`].concat(lines);
+}
+
+function entrySummary(entry: ChangeLogEntry): string {
+  const lines = [`syncToken ${entry.from.syncToken} -> ${entry.to.syncToken}`]
+    .concat(listPrefixes('Added', entry.added))
+    .concat(listPrefixes('Removed', entry.removed));
+
+  if (entry.changed.length > 0) {
+    lines.push(`Changed (${entry.changed.length}): ${entry.changed.slice(0, MAX_LISTED_PREFIXES).map((change) => change.prefix).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+function entryLink(entry: ChangeLogEntry, options: FeedOptions): string {
+  return `${options.baseUrl}/api/aws-ip-ranges/diff?from=${encodeURIComponent(entry.from.syncToken)}&to=${encodeURIComponent(entry.to.syncToken)}`;
+}
+
+/**
+ * Narrows the change log to the feed's filters. With filters set, publishes
+ * that didn't touch the selected regions or services are left out.
+ */
+export function selectFeedEntries(entries: ChangeLogEntry[], filters: FeedFilters): ChangeLogEntry[] {
+  const isFiltered = filters.regions.length > 0 || filters.services.length > 0;
+
+  return entries
+    .map((entry) => filterDiff(entry, filters))
+    .filter((entry) => !isFiltered || entry.summary.added + entry.summary.removed + entry.summary.changed > 0)
+    .slice(0, MAX_FEED_ENTRIES);
+}
+
+/**
+ * Renders change log entries as an Atom 1.0 feed
+ */
+export function buildAtomFeed(entries: ChangeLogEntry[], options: FeedOptions): string {
+  const query = filterQuery(options.filters);
+  const selfUrl = `${options.baseUrl}${options.path}${query}`;
+  const updated = entries.length > 0
+    ? entryDate(entries[0])
+    : new Date(0);
+
+  const items = entries.map((entry) => {
+    const date = entryDate(entry).toISOString();
+    return `  <entry>
+    <id>${escapeXML(`${options.baseUrl}/changes#${entry.to.syncToken}`)}</id>
+    <title>${escapeXML(entryTitle(entry))}</title>
+    <updated>${date}</updated>
+    <published>${date}</published>
+    <link rel="alternate" href="${escapeXML(entryLink(entry, options))}"/>
+    <summary type="text">${escapeXML(entrySummary(entry))}</summary>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXML(selfUrl)}</id>
+  <title>${escapeXML(feedTitle(options.filters))}</title>
+  <subtitle>Prefixes added, removed and changed in each AWS ip-ranges.json publish</subtitle>
+  <updated>${updated.toISOString()}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeXML(selfUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXML(`${options.baseUrl}/changes`)}"/>
+  <author><name>IPMapAWS</name></author>
+${items.join('\n')}
+</feed>`;
+}
+
+/**
+ * Renders change log entries as an RSS 2.0 feed
+ */
+export function buildRSSFeed(entries: ChangeLogEntry[], options: FeedOptions): string {
+  const query = filterQuery(options.filters);
+  const selfUrl = `${options.baseUrl}${options.path}${query}`;
+
+  const items = entries.map((entry) => `    <item>
+      <guid isPermaLink="false">${escapeXML(`ipmapaws-sync-${entry.to.syncToken}`)}</guid>
+      <title>${escapeXML(entryTitle(entry))}</title>
+      <link>${escapeXML(entryLink(entry, options))}</link>
+      <pubDate>${entryDate(entry).toUTCString()}</pubDate>
+      <description>${escapeXML(entrySummary(entry))}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXML(feedTitle(options.filters))}</title>
+    <link>${escapeXML(`${options.baseUrl}/changes`)}</link>
+    <description>Prefixes added, removed and changed in each AWS ip-ranges.json publish</description>
+    <atom:link href="${escapeXML(selfUrl)}" rel="self" type="application/rss+xml"/>
+${items.join('\n')}
+  </channel>
+</rss>`;
+}
\ No newline at end of file
@@ -0,0 +1,308 @@
+/**
+ * IP address and CIDR helpers for IPv4 and IPv6.
+ *
+ * Addresses are represented as big-endian byte arrays (4 bytes for IPv4,
+ * 16 bytes for IPv6) so that both families can share the same comparison
+ * and masking logic without relying on BigInt.
+ */
+
+export type IPVersion = 'ipv4' | 'ipv6';
+
+export interface ParsedIP {
+  type: IPVersion;
+  bytes: number[];
+}
+
+export interface ParsedCIDR extends ParsedIP {
+  prefixLength: number;
+}
+
+export interface NormalizedCIDR {
+  type: IPVersion;
+  // Canonical text form: host bits cleared, IPv6 written per RFC 5952
+  cidr: string;
+  // The input had bits set after the prefix length
+  hostBitsSet: boolean;
+  // The input was already written exactly in canonical form
+  canonical: boolean;
+}
+
+/**
+ * Number of bits in an address of the given family
+ */
+export function addressBits(type: IPVersion): number {
+  return type === 'ipv4' ? 32 : 128;
+}
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    // Reject empty parts, signs, and leading zeros (which some parsers treat as octal)
+    if (!/^\d{1,3}$/.test(part) || (part.length > 1 && part[0] === '0')) {
+      return null;
+    }
+    const byte = parseInt(part, 10);
+    if (byte > 255) return null;
+    bytes.push(byte);
+  }
+
+  return bytes;
+}
+
+function parseIPv6(value: string): number[] | null {
+  // Rewrite a trailing embedded IPv4 address (e.g. ::ffff:192.0.2.1) as two hex groups
+  const lastColon = value.lastIndexOf(':');
+  const lastPart = value.slice(lastColon + 1);
+  if (lastPart.includes('.')) {
+    const ipv4 = parseIPv4(lastPart);
+    if (!ipv4) return null;
+    const high = ((ipv4[0] << 8) | ipv4[1]).toString(16);
+    const low = ((ipv4[2] << 8) | ipv4[3]).toString(16);
+    value = `${value.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (text: string): number[] | null => {
+    if (text === '') return [];
+    const groups: number[] = [];
+    for (const group of text.split(':')) {
+      if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+      groups.push(parseInt(group, 16));
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  let groups: number[];
+  if (halves.length === 2) {
+    // "::" must stand in for at least one group of zeros
+    const missing = 8 - head.length - tail.length;
+    if (missing < 1) return null;
+    groups = [...head, ...new Array(missing).fill(0), ...tail];
+  } else {
+    if (head.length !== 8) return null;
+    groups = head;
+  }
+
+  const bytes: number[] = [];
+  groups.forEach((group) => {
+    bytes.push(group >> 8, group & 0xff);
+  });
+  return bytes;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address (without a prefix length)
+ */
+export function parseIP(value: string): ParsedIP | null {
+  const trimmed = value.trim();
+  if (trimmed.includes(':')) {
+    const bytes = parseIPv6(trimmed);
+    return bytes ? { type: 'ipv6', bytes } : null;
+  }
+
+  const bytes = parseIPv4(trimmed);
+  return bytes ? { type: 'ipv4', bytes } : null;
+}
+
+/**
+ * Parses CIDR notation into its network address and prefix length.
+ * A bare address is accepted when `allowBareIP` is set and treated as a
+ * single-host prefix (/32 or /128). Host bits are cleared from the result.
+ */
+export function parseCIDR(
+  value: string,
+  allowBareIP: boolean = false
+): ParsedCIDR | null {
+  const trimmed = value.trim();
+  const slash = trimmed.indexOf('/');
+
+  if (slash === -1) {
+    if (!allowBareIP) return null;
+    const ip = parseIP(trimmed);
+    return ip ? { ...ip, prefixLength: addressBits(ip.type) } : null;
+  }
+
+  const ip = parseIP(trimmed.slice(0, slash));
+  const lengthText = trimmed.slice(slash + 1);
+  if (!ip || !/^\d{1,3}$/.test(lengthText)) return null;
+
+  const prefixLength = parseInt(lengthText, 10);
+  if (prefixLength > addressBits(ip.type)) return null;
+
+  return {
+    type: ip.type,
+    bytes: maskBytes(ip.bytes, prefixLength),
+    prefixLength,
+  };
+}
+
+/**
+ * Validates CIDR notation and returns its canonical form, noting whether the
+ * input had host bits set or was written in a non-canonical way
+ * (e.g. uppercase hex, leading zeros or uncompressed zero groups).
+ */
+export function normalizeCIDR(value: string): NormalizedCIDR | null {
+  const network = parseCIDR(value);
+  if (!network) return null;
+
+  const address = parseIP(value.trim().slice(0, value.trim().indexOf('/')))!;
+  const cidr = formatCIDR(network);
+
+  return {
+    type: network.type,
+    cidr,
+    hostBitsSet: compareBytes(address.bytes, network.bytes) !== 0,
+    canonical: cidr === value,
+  };
+}
+
+/**
+ * Returns a copy of the address with every bit after `prefixLength` cleared
+ */
+export function maskBytes(bytes: number[], prefixLength: number): number[] {
+  return bytes.map((byte, index) => {
+    const bitsInByte = Math.min(8, Math.max(0, prefixLength - index * 8));
+    return byte & ((0xff << (8 - bitsInByte)) & 0xff);
+  });
+}
+
+/**
+ * Dotted-quad IPv4 netmask for a prefix length, e.g. 22 → 255.255.252.0
+ */
+export function ipv4Netmask(prefixLength: number): string {
+  return maskBytes([255, 255, 255, 255], prefixLength).join('.');
+}
+
+/**
+ * IPv4 wildcard (inverted) mask for a prefix length, as Cisco ACLs use it,
+ * e.g. 22 → 0.0.3.255
+ */
+export function ipv4Wildcard(prefixLength: number): string {
+  return maskBytes([255, 255, 255, 255], prefixLength).map((byte) => 255 - byte).join('.');
+}
+
+/**
+ * Compares two addresses of the same family numerically
+ */
+export function compareBytes(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Checks whether `inner` lies entirely within `outer`
+ */
+export function cidrContains(outer: ParsedCIDR, inner: ParsedCIDR): boolean {
+  if (outer.type !== inner.type || outer.prefixLength > inner.prefixLength) {
+    return false;
+  }
+  return compareBytes(maskBytes(inner.bytes, outer.prefixLength), outer.bytes) === 0;
+}
+
+// Loopback, private, link-local, shared, documentation, multicast and other
+// special-purpose ranges (RFC 6890) that are never reachable on the internet
+const NON_PUBLIC_RANGES = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+  '172.16.0.0/12', '192.0.0.0/24', '192.0.2.0/24', '192.168.0.0/16', '198.18.0.0/15',
+  '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4',
+  '::/127', '::ffff:0:0/96', '64:ff9b::/96', '100::/64', '2001:db8::/32',
+  'fc00::/7', 'fe80::/10', 'ff00::/8',
+];
+let nonPublicNetworks: ParsedCIDR[] | null = null;
+
+/**
+ * Checks that an address is globally routable rather than loopback, private,
+ * link-local or reserved for another special purpose
+ */
+export function isPublicAddress(ip: ParsedIP): boolean {
+  if (!nonPublicNetworks) {
+    nonPublicNetworks = NON_PUBLIC_RANGES.map((range) => parseCIDR(range)!);
+  }
+  const host: ParsedCIDR = { ...ip, prefixLength: addressBits(ip.type) };
+  return !nonPublicNetworks.some((network) => cidrContains(network, host));
+}
+
+/**
+ * Orders prefixes by address family (IPv4 first), then numeric network
+ * address, then prefix length. Unparseable values sort last.
+ */
+export function compareParsedCIDRs(a: ParsedCIDR | null, b: ParsedCIDR | null): number {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  if (a.type !== b.type) return a.type === 'ipv4' ? -1 : 1;
+  return compareBytes(a.bytes, b.bytes) || a.prefixLength - b.prefixLength;
+}
+
+/**
+ * Compares two CIDR strings in address order (see compareParsedCIDRs)
+ */
+export function compareCIDRs(a: string, b: string): number {
+  return compareParsedCIDRs(parseCIDR(a, true), parseCIDR(b, true)) || a.localeCompare(b);
+}
+
+/**
+ * Formats an address back into text. IPv6 follows RFC 5952: lowercase hex,
+ * no leading zeros, the longest run of zero groups compressed, and
+ * IPv4-mapped addresses written as ::ffff:a.b.c.d.
+ */
+export function formatIP(ip: ParsedIP): string {
+  if (ip.type === 'ipv4') {
+    return ip.bytes.join('.');
+  }
+
+  const isIPv4Mapped =
+    ip.bytes.slice(0, 10).every((byte) => byte === 0) &&
+    ip.bytes[10] === 0xff &&
+    ip.bytes[11] === 0xff;
+  if (isIPv4Mapped) {
+    return `::ffff:${ip.bytes.slice(12).join('.')}`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1]);
+  }
+
+  // Find the longest run of zero groups (length >= 2) to compress
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestLength < 2) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Formats a parsed CIDR back into text
+ */
+export function formatCIDR(cidr: ParsedCIDR): string {
+  return `${formatIP(cidr)}/${cidr.prefixLength}`;
+}
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { AWSIPRanges, AddressClassification, CombinedPrefix } from '@/types';
+import { PrefixFilters, filterPrefixes, parseSearchNetwork, transformAWSIPRanges } from '@/lib/api';
+import { IPVersion, ParsedCIDR, parseCIDR } from '@/lib/ip';
+
+interface TrieNode {
+  children: [TrieNode | null, TrieNode | null];
+  // Every AWS entry whose prefix ends exactly at this node (e.g. AMAZON and EC2 rows)
+  entries: CombinedPrefix[];
+}
+
+export interface PrefixIndex {
+  syncToken: string;
+  prefixes: CombinedPrefix[];
+  roots: Record<IPVersion, TrieNode>;
+}
+
+// Keep a few versions around so historical and current queries don't evict each other
+const MAX_CACHED_INDEXES = 3;
+// A wide input like 0.0.0.0/0 overlaps every prefix in its family
+export const MAX_CLASSIFY_MATCHES = 100;
+const indexCache = new Map<string, PrefixIndex>();
+
+function createNode(): TrieNode {
+  return { children: [null, null], entries: [] };
+}
+
+function getBit(bytes: number[], index: number): 0 | 1 {
+  return ((bytes[index >> 3] >> (7 - (index & 7))) & 1) as 0 | 1;
+}
+
+/**
+ * Builds a binary prefix trie (one per address family) over the given prefixes
+ */
+export function buildPrefixIndex(
+  prefixes: CombinedPrefix[],
+  syncToken: string = ''
+): PrefixIndex {
+  const roots: Record<IPVersion, TrieNode> = {
+    ipv4: createNode(),
+    ipv6: createNode(),
+  };
+
+  prefixes.forEach((prefix) => {
+    const network = parseCIDR(prefix.prefix);
+    if (!network) return;
+
+    let node = roots[network.type];
+    for (let i = 0; i < network.prefixLength; i++) {
+      const bit = getBit(network.bytes, i);
+      if (!node.children[bit]) {
+        node.children[bit] = createNode();
+      }
+      node = node.children[bit]!;
+    }
+    node.entries.push(prefix);
+  });
+
+  return { syncToken, prefixes, roots };
+}
+
+/**
+ * Returns the shared index for a dataset, building it only when the syncToken changes
+ */
+export function getPrefixIndex(data: AWSIPRanges): PrefixIndex {
+  const cached = indexCache.get(data.syncToken);
+  if (cached) return cached;
+
+  const index = buildPrefixIndex(transformAWSIPRanges(data), data.syncToken);
+  indexCache.set(data.syncToken, index);
+
+  // Evict the oldest entry (Maps iterate in insertion order)
+  if (indexCache.size > MAX_CACHED_INDEXES) {
+    const oldest = indexCache.keys().next().value;
+    if (oldest !== undefined) indexCache.delete(oldest);
+  }
+
+  return index;
+}
+
+/**
+ * Finds every prefix that contains the query, most specific first
+ */
+export function findContaining(index: PrefixIndex, query: ParsedCIDR): CombinedPrefix[] {
+  const matches: CombinedPrefix[][] = [];
+  let node: TrieNode | null = index.roots[query.type];
+
+  for (let i = 0; node; i++) {
+    if (node.entries.length > 0) matches.push(node.entries);
+    if (i === query.prefixLength) break;
+    node = node.children[getBit(query.bytes, i)];
+  }
+
+  return matches.reverse().reduce((all, entries) => all.concat(entries), []);
+}
+
+/**
+ * Finds the most specific prefix(es) containing the query (longest-prefix match)
+ */
+export function findLongestMatch(index: PrefixIndex, query: ParsedCIDR): CombinedPrefix[] {
+  let best: CombinedPrefix[] = [];
+  let node: TrieNode | null = index.roots[query.type];
+
+  for (let i = 0; node; i++) {
+    if (node.entries.length > 0) best = node.entries;
+    if (i === query.prefixLength) break;
+    node = node.children[getBit(query.bytes, i)];
+  }
+
+  return best.slice();
+}
+
+type DepthMatch = { prefix: CombinedPrefix; depth: number };
+
+// Everything at or below the query's node lies within the query
+function collectWithin(
+  index: PrefixIndex,
+  query: ParsedCIDR,
+  matches: DepthMatch[],
+  includeContaining: boolean,
+  limit = Infinity
+): DepthMatch[] {
+  let node: TrieNode | null = index.roots[query.type];
+  let depth = 0;
+
+  // Walk down to the query's node, passing the prefixes that contain it
+  for (; node && depth < query.prefixLength; depth++) {
+    if (includeContaining) {
+      node.entries.forEach((prefix) => matches.push({ prefix, depth }));
+    }
+    node = node.children[getBit(query.bytes, depth)];
+  }
+
+  const stack: { node: TrieNode; depth: number }[] = node ? [{ node, depth }] : [];
+  while (stack.length > 0 && matches.length < limit) {
+    const current = stack.pop()!;
+    current.node.entries.forEach((prefix) => matches.push({ prefix, depth: current.depth }));
+    current.node.children.forEach((child) => {
+      if (child) stack.push({ node: child, depth: current.depth + 1 });
+    });
+  }
+
+  return matches;
+}
+
+function mostSpecificFirst(matches: DepthMatch[]): CombinedPrefix[] {
+  return matches
+    .sort((a, b) => b.depth - a.depth)
+    .map((match) => match.prefix);
+}
+
+/**
+ * Finds every prefix that overlaps the query: those containing it and those
+ * inside it. Results are ordered most specific first.
+ */
+export function findOverlapping(index: PrefixIndex, query: ParsedCIDR): CombinedPrefix[] {
+  return mostSpecificFirst(collectWithin(index, query, [], true));
+}
+
+/**
+ * Finds every prefix inside the query (including an equal one), most specific first
+ */
+export function findWithin(index: PrefixIndex, query: ParsedCIDR): CombinedPrefix[] {
+  return mostSpecificFirst(collectWithin(index, query, [], false));
+}
+
+/**
+ * filterPrefixes over the whole index. IP and CIDR search terms are answered
+ * from the trie instead of parsing and comparing every prefix; the result
+ * keeps the index's order.
+ */
+export function filterIndexedPrefixes(index: PrefixIndex, filters: PrefixFilters): CombinedPrefix[] {
+  const query = parseSearchNetwork(filters);
+  if (!query) {
+    return filterPrefixes(index.prefixes, filters);
+  }
+
+  const matchMode = filters.matchMode || 'overlaps';
+  const matches = new Set(
+    matchMode === 'contains' ? findContaining(index, query)
+      : matchMode === 'within' ? findWithin(index, query)
+        : findOverlapping(index, query)
+  );
+
+  return filterPrefixes(
+    index.prefixes.filter((prefix) => matches.has(prefix)),
+    { ...filters, searchTerm: '' }
+  );
+}
+
+/**
+ * Finds every prefix that contains the given IP address, most specific first
+ */
+export function lookupPrefixes(index: PrefixIndex, ip: string): CombinedPrefix[] {
+  const address = parseCIDR(ip, true);
+  return address ? findContaining(index, address) : [];
+}
+
+/**
+ * Classifies a batch of IP addresses or CIDRs against the AWS prefixes.
+ * Each input is matched against the prefixes that overlap it, most specific
+ * first. Inputs overlapping more than MAX_CLASSIFY_MATCHES prefixes stop
+ * there and are flagged as truncated.
+ */
+export function classifyAddresses(
+  index: PrefixIndex,
+  inputs: string[]
+): AddressClassification[] {
+  return inputs.map((input): AddressClassification => {
+    const query = parseCIDR(input, true);
+    if (!query) {
+      return { input, status: 'invalid', isAWS: false, matches: [] };
+    }
+
+    // Collect one extra match to tell a full result from a truncated one
+    const matches = mostSpecificFirst(collectWithin(index, query, [], true, MAX_CLASSIFY_MATCHES + 1));
+    const truncated = matches.length > MAX_CLASSIFY_MATCHES;
+
+    return {
+      input,
+      status: matches.length > 0 ? 'aws' : 'not-aws',
+      type: query.type,
+      isAWS: matches.length > 0,
+      matches: truncated ? matches.slice(0, MAX_CLASSIFY_MATCHES) : matches,
+      ...(truncated && { truncated: true }),
+    };
+  });
+}
\ No newline at end of file
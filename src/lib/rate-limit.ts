@@ -95,12 +95,14 @@ export function createRateLimit(options: RateLimitOptions) {
 
   return async function rateLimitMiddleware(
     request: NextRequest,
-    handler: () => Promise<NextResponse>
+    // charge() adds units only known once the request is read (e.g. batch size)
+    handler: (charge: (units: number) => void) => Promise<NextResponse>,
+    cost: number = 1 // Units this request consumes up front
   ): Promise<NextResponse> {
     // Check if this is an internal request and should bypass rate limiting
     if (bypassInternal && isInternalRequest(request)) {
       // Skip rate limiting for internal requests but still process normally
-      return handler();
+      return handler(() => {});
     }
 
     // Get client identifier (IP address)
@@ -119,8 +121,8 @@ export function createRateLimit(options: RateLimitOptions) {
       store.set(clientId, record);
     }
 
-    // Check if limit exceeded
-    if (record.count >= maxRequests) {
+    // Check if limit exceeded (or would be by this request)
+    if (record.count + cost > maxRequests) {
       const resetTimeSeconds = Math.ceil((record.resetTime - now) / 1000);
       
       return NextResponse.json(
@@ -145,16 +147,27 @@ export function createRateLimit(options: RateLimitOptions) {
     }
 
     // Increment counter before processing request
-    if (!skipSuccessfulRequests && !skipFailedRequests) {
-      record.count++;
+    const counted = !skipSuccessfulRequests && !skipFailedRequests;
+    let charged = cost;
+    if (counted) {
+      record.count += cost;
     }
 
+    // Late charges can take the client over its quota; later requests are refused
+    const currentRecord = record;
+    const charge = (units: number) => {
+      charged += units;
+      if (counted) {
+        currentRecord.count += units;
+      }
+    };
+
     // Process the request
     let response: NextResponse;
     let shouldCount = true;
 
     try {
-      response = await handler();
+      response = await handler(charge);
       
       // Check if we should count this request
       if (skipSuccessfulRequests && response.status < 400) {
@@ -174,7 +187,7 @@ export function createRateLimit(options: RateLimitOptions) {
 
     // Update counter based on response
     if ((skipSuccessfulRequests || skipFailedRequests) && !shouldCount) {
-      record.count--;
+      record.count -= charged;
     }
 
     // Add rate limit headers to response
@@ -188,7 +201,7 @@ export function createRateLimit(options: RateLimitOptions) {
   };
 }
 
-function getClientId(request: NextRequest): string {
+export function getClientId(request: NextRequest): string {
   // Try to get real IP from various headers (for proxies/CDNs)
   const forwarded = request.headers.get('x-forwarded-for');
   const realIp = request.headers.get('x-real-ip');
@@ -231,4 +244,11 @@ export const exportRateLimit = createRateLimit({
   maxRequests: 5, // 5 exports per 10 minutes
   message: 'Too many export requests. Please wait before requesting another export.',
   bypassInternal: true, // Allow internal website requests
-}); 
\ No newline at end of file
+});
+
+export const classifyRateLimit = createRateLimit({
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  maxRequests: 20000, // 20,000 units per 10 minutes (each address and each match returned costs one)
+  message: 'Too many addresses classified. Please wait before submitting another batch.',
+  bypassInternal: true, // Allow internal website requests
+});
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { put, head, del } from '@vercel/blob';
+import { AWSIPRanges, SnapshotVersion } from '@/types';
+
+interface SnapshotIndex {
+  // Newest first
+  versions: SnapshotVersion[];
+}
+
+const SNAPSHOT_PREFIX = 'cache/snapshots/';
+const SNAPSHOT_INDEX_BLOB = `${SNAPSHOT_PREFIX}index.json`;
+// How many distinct versions to keep (AWS publishes a few per week)
+export const MAX_SNAPSHOTS = Number(process.env.SNAPSHOT_RETENTION) || 180;
+// Historical snapshots held in memory (besides the blob store)
+const MAX_MEMORY_SNAPSHOTS = 3;
+// Times to retry an index write that a concurrent writer overwrote
+const INDEX_WRITE_ATTEMPTS = 3;
+
+// In-memory fallback when blob storage is unavailable
+let memoryIndex: SnapshotIndex = { versions: [] };
+const memorySnapshots = new Map<string, AWSIPRanges>();
+let saveQueue: Promise<void> = Promise.resolve();
+
+function snapshotBlobName(syncToken: string): string {
+  return `${SNAPSHOT_PREFIX}${syncToken}.json`;
+}
+
+async function readBlobJSON<T>(name: string): Promise<T | null> {
+  const blobInfo = await head(name).catch(() => null);
+  if (!blobInfo) return null;
+
+  const response = await fetch(blobInfo.url);
+  return JSON.parse(await response.text());
+}
+
+function rememberSnapshot(data: AWSIPRanges): void {
+  memorySnapshots.delete(data.syncToken);
+  memorySnapshots.set(data.syncToken, data);
+
+  // Evict the oldest entry (Maps iterate in insertion order)
+  if (memorySnapshots.size > MAX_MEMORY_SNAPSHOTS) {
+    const oldest = memorySnapshots.keys().next().value;
+    if (oldest !== undefined) memorySnapshots.delete(oldest);
+  }
+}
+
+/**
+ * Lists the stored versions, newest first
+ */
+export async function getSnapshotVersions(): Promise<SnapshotVersion[]> {
+  try {
+    const index = await readBlobJSON<SnapshotIndex>(SNAPSHOT_INDEX_BLOB);
+    if (index) {
+      memoryIndex = index;
+      return index.versions;
+    }
+  } catch (error) {
+    console.log('Snapshot index unavailable, using memory index:', error);
+  }
+
+  return memoryIndex.versions;
+}
+
+function withVersion(
+  versions: SnapshotVersion[],
+  version: SnapshotVersion
+): { retained: SnapshotVersion[]; expired: SnapshotVersion[] } {
+  // Newest AWS version first, regardless of the order they were stored in
+  const updated = versions
+    .filter((existing) => existing.syncToken !== version.syncToken)
+    .concat(version)
+    .sort((a, b) => b.createDate.localeCompare(a.createDate));
+  return { retained: updated.slice(0, MAX_SNAPSHOTS), expired: updated.slice(MAX_SNAPSHOTS) };
+}
+
+/**
+ * Adds a version to the stored index and returns the versions that fell out of
+ * retention. Another instance can write the index between our read and write,
+ * so the index is re-read afterwards and the merge repeated until the version sticks.
+ */
+async function addToIndex(version: SnapshotVersion): Promise<SnapshotVersion[]> {
+  let expired: SnapshotVersion[] = [];
+
+  for (let attempt = 0; attempt < INDEX_WRITE_ATTEMPTS; attempt++) {
+    const versions = await getSnapshotVersions();
+    if (versions.some((existing) => existing.syncToken === version.syncToken)) {
+      return expired;
+    }
+
+    const updated = withVersion(versions, version);
+    memoryIndex = { versions: updated.retained };
+    expired = updated.expired;
+
+    await put(SNAPSHOT_INDEX_BLOB, JSON.stringify(memoryIndex, null, 2), {
+      access: 'public',
+      allowOverwrite: true,
+      contentType: 'application/json',
+    });
+  }
+
+  console.log(`Snapshot index still missing ${version.syncToken} after ${INDEX_WRITE_ATTEMPTS} writes`);
+  return expired;
+}
+
+async function storeSnapshot(data: AWSIPRanges): Promise<void> {
+  rememberSnapshot(data);
+
+  const versions = await getSnapshotVersions();
+  if (versions.some((version) => version.syncToken === data.syncToken)) {
+    return;
+  }
+
+  const version: SnapshotVersion = {
+    syncToken: data.syncToken,
+    createDate: data.createDate,
+    storedAt: new Date().toISOString(),
+    ipv4Count: data.prefixes.length,
+    ipv6Count: data.ipv6_prefixes.length,
+  };
+
+  try {
+    // The snapshot may already exist from an attempt whose index write failed;
+    // its content is fixed by the syncToken, so it is reused rather than rewritten
+    const existing = await head(snapshotBlobName(data.syncToken)).catch(() => null);
+    if (!existing) {
+      await put(snapshotBlobName(data.syncToken), JSON.stringify(data), {
+        access: 'public',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+        contentType: 'application/json',
+      });
+    }
+
+    const expired = await addToIndex(version);
+    console.log(`Stored snapshot ${data.syncToken} (${memoryIndex.versions.length} versions kept)`);
+
+    if (expired.length > 0) {
+      await del(expired.map((old) => snapshotBlobName(old.syncToken)));
+      console.log(`Removed ${expired.length} expired snapshots`);
+    }
+  } catch (error) {
+    console.log('Snapshot storage failed, keeping snapshot in memory only:', error);
+    memoryIndex = { versions: withVersion(memoryIndex.versions, version).retained };
+    // Don't throw - history is best effort and shouldn't break syncing
+  }
+}
+
+/**
+ * Stores a version of the AWS data as an immutable snapshot. Versions that are
+ * already stored are left untouched; the oldest ones beyond MAX_SNAPSHOTS are removed.
+ */
+export function saveSnapshot(data: AWSIPRanges): Promise<void> {
+  // Saves in this process run one at a time so they don't race each other on the index
+  const save = saveQueue.then(() => storeSnapshot(data));
+  saveQueue = save.catch(() => undefined);
+  return save;
+}
+
+/**
+ * Reads the AWS data for a specific syncToken, or null when that version isn't stored
+ */
+export async function getSnapshot(syncToken: string): Promise<AWSIPRanges | null> {
+  const cached = memorySnapshots.get(syncToken);
+  if (cached) return cached;
+
+  // Only ask blob storage for tokens that look like AWS sync tokens
+  if (!/^\d+$/.test(syncToken)) return null;
+
+  try {
+    const data = await readBlobJSON<AWSIPRanges>(snapshotBlobName(syncToken));
+    if (data) {
+      rememberSnapshot(data);
+      return data;
+    }
+  } catch (error) {
+    console.log(`Snapshot ${syncToken} unavailable:`, error);
+  }
+
+  return null;
+}
+
+/**
+ * Reads the newest stored version published before the given one
+ */
+export async function getPreviousSnapshot(data: AWSIPRanges): Promise<AWSIPRanges | null> {
+  const versions = await getSnapshotVersions();
+  const previous = versions.find(
+    (version) => version.syncToken !== data.syncToken && version.createDate < data.createDate
+  );
+  return previous ? getSnapshot(previous.syncToken) : null;
+}
\ No newline at end of file
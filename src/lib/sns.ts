@@ -0,0 +1,141 @@
+import { createVerify } from 'crypto';
+
+// Topic AWS publishes ip-ranges.json updates to
+export const AWS_IP_SPACE_TOPIC_ARN = 'arn:aws:sns:us-east-1:806199016981:AmazonIpSpaceChanged';
+
+export type SNSMessageType = 'SubscriptionConfirmation' | 'Notification' | 'UnsubscribeConfirmation';
+
+export interface SNSMessage {
+  Type: SNSMessageType;
+  MessageId: string;
+  TopicArn: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: string;
+  Signature: string;
+  SigningCertURL: string;
+  Subject?: string;
+  Token?: string;
+  SubscribeURL?: string;
+  UnsubscribeURL?: string;
+}
+
+export interface SNSVerifyOptions {
+  topicArn?: string;
+  // Current time in milliseconds, for checking the message Timestamp
+  now?: number;
+  // Loads the PEM signing certificate; replaced in tests with a local one
+  fetchCertificate?: (url: string) => Promise<string>;
+}
+
+// Fields covered by the signature, in the order AWS signs them
+const NOTIFICATION_FIELDS: Array<keyof SNSMessage> = ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'];
+const CONFIRMATION_FIELDS: Array<keyof SNSMessage> = ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+
+const SNS_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+// Older (or further in the future) messages are treated as replays
+const MAX_MESSAGE_AGE = 60 * 60 * 1000;
+
+// Signing certificates rarely rotate, so keep them for the life of the instance
+const certificateCache = new Map<string, string>();
+
+/**
+ * Checks that a URL from an SNS message points at an SNS endpoint over HTTPS,
+ * so a forged message can't make us fetch arbitrary URLs
+ */
+export function isSNSURL(value: string | undefined): boolean {
+  if (!value) return false;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' && SNS_HOST.test(url.hostname);
+}
+
+/**
+ * Parses a request body into an SNS message, or null when it isn't one
+ */
+export function parseSNSMessage(body: string): SNSMessage | null {
+  let parsed: Partial<SNSMessage>;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  const required: Array<keyof SNSMessage> = ['Type', 'MessageId', 'TopicArn', 'Message', 'Timestamp', 'SignatureVersion', 'Signature', 'SigningCertURL'];
+  if (!parsed || typeof parsed !== 'object' || required.some((field) => typeof parsed[field] !== 'string')) {
+    return null;
+  }
+  if (['SubscriptionConfirmation', 'Notification', 'UnsubscribeConfirmation'].indexOf(parsed.Type as string) === -1) {
+    return null;
+  }
+
+  return parsed as SNSMessage;
+}
+
+/**
+ * Builds the canonical "Key\nValue\n" string that SNS signs
+ */
+export function buildStringToSign(message: SNSMessage): string {
+  const fields = message.Type === 'Notification' ? NOTIFICATION_FIELDS : CONFIRMATION_FIELDS;
+
+  return fields
+    .filter((field) => message[field] !== undefined)
+    .map((field) => `${field}\n${message[field]}\n`)
+    .join('');
+}
+
+async function fetchSigningCertificate(url: string): Promise<string> {
+  const cached = certificateCache.get(url);
+  if (cached) return cached;
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+  if (!response.ok) {
+    throw new Error(`Signing certificate request failed with status: ${response.status}`);
+  }
+
+  const certificate = await response.text();
+  certificateCache.set(url, certificate);
+  return certificate;
+}
+
+/**
+ * Verifies that a message was signed by SNS for the expected topic.
+ * Returns the reason when verification fails, or null when the message is genuine.
+ */
+export async function verifySNSMessage(message: SNSMessage, options: SNSVerifyOptions = {}): Promise<string | null> {
+  const topicArn = options.topicArn || AWS_IP_SPACE_TOPIC_ARN;
+  const fetchCertificate = options.fetchCertificate || fetchSigningCertificate;
+
+  if (message.TopicArn !== topicArn) {
+    return `Unexpected topic ${message.TopicArn}`;
+  }
+  const age = (options.now || Date.now()) - Date.parse(message.Timestamp);
+  if (!(Math.abs(age) <= MAX_MESSAGE_AGE)) {
+    return `Message timestamp ${message.Timestamp} is outside the accepted window`;
+  }
+  if (message.SignatureVersion !== '1' && message.SignatureVersion !== '2') {
+    return `Unsupported signature version ${message.SignatureVersion}`;
+  }
+  if (!isSNSURL(message.SigningCertURL) || !new URL(message.SigningCertURL).pathname.endsWith('.pem')) {
+    return 'Signing certificate URL is not an SNS endpoint';
+  }
+
+  let certificate: string;
+  try {
+    certificate = await fetchCertificate(message.SigningCertURL);
+  } catch (error) {
+    return `Unable to load signing certificate: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  try {
+    const verifier = createVerify(message.SignatureVersion === '1' ? 'RSA-SHA1' : 'RSA-SHA256');
+    verifier.update(buildStringToSign(message), 'utf8');
+    return verifier.verify(certificate, message.Signature, 'base64') ? null : 'Signature does not match';
+  } catch (error) {
+    return `Unable to verify signature: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
\ No newline at end of file
@@ -34,6 +34,14 @@ const swaggerDefinition = {
       name: 'SEO',
       description: 'SEO-related endpoints',
     },
+    {
+      name: 'Feeds',
+      description: 'Atom and RSS feeds of AWS IP range changes',
+    },
+    {
+      name: 'Webhooks',
+      description: 'Signed notifications when AWS publishes new IP ranges',
+    },
   ],
   components: {
     schemas: {
@@ -124,6 +132,7 @@ const swaggerDefinition = {
               totalPages: { type: 'integer', example: 20 },
             },
           },
+          aggregation: { $ref: '#/components/schemas/AggregationSummary' },
         },
       },
       ExportResponse: {
@@ -143,6 +152,322 @@ const swaggerDefinition = {
             format: 'date-time',
             description: 'Timestamp when the export was generated',
           },
+          aggregation: { $ref: '#/components/schemas/AggregationSummary' },
+        },
+      },
+      AggregationSummary: {
+        type: 'object',
+        description: 'Present when aggregate=true',
+        properties: {
+          inputCount: {
+            type: 'integer',
+            description: 'Number of filtered prefixes before aggregation',
+            example: 1200,
+          },
+          outputCount: {
+            type: 'integer',
+            description: 'Number of CIDR blocks after aggregation',
+            example: 310,
+          },
+        },
+      },
+      LookupResponse: {
+        type: 'object',
+        properties: {
+          ip: {
+            type: 'string',
+            description: 'The address that was looked up',
+            example: '52.95.110.1',
+          },
+          type: {
+            type: 'string',
+            enum: ['ipv4', 'ipv6'],
+            description: 'IP address type',
+            example: 'ipv4',
+          },
+          isAWS: {
+            type: 'boolean',
+            description: 'Whether any AWS prefix contains the address',
+            example: true,
+          },
+          matches: {
+            type: 'array',
+            description: 'Matching prefixes, most specific first',
+            items: { $ref: '#/components/schemas/AWSIPRange' },
+          },
+          syncToken: {
+            type: 'string',
+            description: 'AWS sync token of the data used',
+            example: '1234567890',
+          },
+          createDate: {
+            type: 'string',
+            description: 'Date when the data was created by AWS',
+            example: '2024-01-15-10-30-45',
+          },
+        },
+      },
+      ClassifyResponse: {
+        type: 'object',
+        properties: {
+          results: {
+            type: 'array',
+            description: 'One entry per input, in request order',
+            items: {
+              type: 'object',
+              properties: {
+                input: { type: 'string', example: '52.95.110.1' },
+                status: {
+                  type: 'string',
+                  enum: ['aws', 'not-aws', 'invalid'],
+                  example: 'aws',
+                },
+                type: { type: 'string', enum: ['ipv4', 'ipv6'], example: 'ipv4' },
+                isAWS: { type: 'boolean', example: true },
+                matches: {
+                  type: 'array',
+                  description: 'Overlapping prefixes, most specific first, at most 100',
+                  items: { $ref: '#/components/schemas/AWSIPRange' },
+                },
+                truncated: {
+                  type: 'boolean',
+                  description: 'Present and true when more than 100 prefixes overlap the input',
+                  example: true,
+                },
+              },
+            },
+          },
+          summary: {
+            type: 'object',
+            properties: {
+              total: { type: 'integer', example: 3 },
+              aws: { type: 'integer', example: 2 },
+              notAWS: { type: 'integer', example: 1 },
+              invalid: { type: 'integer', example: 0 },
+            },
+          },
+          syncToken: { type: 'string', example: '1234567890' },
+          createDate: { type: 'string', example: '2024-01-15-10-30-45' },
+        },
+      },
+      SnapshotVersion: {
+        type: 'object',
+        properties: {
+          syncToken: { type: 'string', example: '1705314645' },
+          createDate: {
+            type: 'string',
+            description: 'Date when the version was published by AWS',
+            example: '2024-01-15-10-30-45',
+          },
+          storedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When this service stored the snapshot',
+          },
+          ipv4Count: { type: 'integer', example: 7500 },
+          ipv6Count: { type: 'integer', example: 2500 },
+        },
+      },
+      VersionsResponse: {
+        type: 'object',
+        properties: {
+          versions: {
+            type: 'array',
+            description: 'Stored versions, newest first',
+            items: { $ref: '#/components/schemas/SnapshotVersion' },
+          },
+          current: {
+            type: 'string',
+            nullable: true,
+            description: 'syncToken of the data currently served',
+            example: '1705314645',
+          },
+          retention: {
+            type: 'integer',
+            description: 'Maximum number of versions kept',
+            example: 180,
+          },
+        },
+      },
+      FeedIssue: {
+        type: 'object',
+        properties: {
+          kind: {
+            type: 'string',
+            enum: ['invalid', 'wrong-family', 'host-bits', 'non-canonical'],
+            example: 'host-bits',
+          },
+          field: { type: 'string', enum: ['ip_prefix', 'ipv6_prefix'], example: 'ip_prefix' },
+          value: { type: 'string', example: '52.95.110.1/24' },
+          normalized: {
+            type: 'string',
+            description: 'Canonical form the entry was rewritten to; absent when it was dropped',
+            example: '52.95.110.0/24',
+          },
+          region: { type: 'string', example: 'us-east-1' },
+          service: { type: 'string', example: 'EC2' },
+        },
+      },
+      FeedValidationReport: {
+        type: 'object',
+        properties: {
+          syncToken: { type: 'string', example: '1705314645' },
+          createDate: { type: 'string', example: '2024-01-15-10-30-45' },
+          checkedAt: { type: 'string', format: 'date-time' },
+          total: { type: 'integer', description: 'Prefixes checked', example: 9874 },
+          normalized: { type: 'integer', description: 'Prefixes rewritten to canonical form', example: 1 },
+          dropped: { type: 'integer', description: 'Invalid prefixes removed from the data', example: 0 },
+          issues: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/FeedIssue' },
+          },
+        },
+      },
+      SyncStatusResponse: {
+        type: 'object',
+        properties: {
+          running: { type: 'boolean', description: 'Whether periodic syncing is scheduled on this instance' },
+          interval: { type: 'integer', description: 'Milliseconds between sync checks', example: 3600000 },
+          environment: { type: 'string', enum: ['serverless', 'traditional'] },
+          lastValidation: {
+            allOf: [{ $ref: '#/components/schemas/FeedValidationReport' }],
+            nullable: true,
+            description: 'Validation of the last feed fetched by this instance; null before the first sync',
+          },
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+      },
+      PrefixAttributes: {
+        type: 'object',
+        properties: {
+          region: { type: 'string', example: 'us-east-1' },
+          service: { type: 'string', example: 'EC2' },
+          network_border_group: { type: 'string', example: 'us-east-1' },
+        },
+      },
+      DiffResponse: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'object',
+            properties: {
+              syncToken: { type: 'string', example: '1705314645' },
+              createDate: { type: 'string', example: '2024-01-15-10-30-45' },
+            },
+          },
+          to: {
+            type: 'object',
+            properties: {
+              syncToken: { type: 'string', example: '1705401045' },
+              createDate: { type: 'string', example: '2024-01-16-10-30-45' },
+            },
+          },
+          added: {
+            type: 'array',
+            description: 'Entries for prefixes that only exist in the newer version',
+            items: { $ref: '#/components/schemas/AWSIPRange' },
+          },
+          removed: {
+            type: 'array',
+            description: 'Entries for prefixes that only exist in the older version',
+            items: { $ref: '#/components/schemas/AWSIPRange' },
+          },
+          changed: {
+            type: 'array',
+            description: 'Prefixes in both versions whose region, service or network border group entries differ',
+            items: {
+              type: 'object',
+              properties: {
+                prefix: { type: 'string', example: '3.5.140.0/22' },
+                type: { type: 'string', enum: ['ipv4', 'ipv6'] },
+                before: { type: 'array', items: { $ref: '#/components/schemas/PrefixAttributes' } },
+                after: { type: 'array', items: { $ref: '#/components/schemas/PrefixAttributes' } },
+              },
+            },
+          },
+          summary: {
+            type: 'object',
+            properties: {
+              added: { type: 'integer', example: 12 },
+              removed: { type: 'integer', example: 3 },
+              changed: { type: 'integer', example: 1 },
+            },
+          },
+        },
+      },
+      ChangesResponse: {
+        type: 'object',
+        properties: {
+          changes: {
+            type: 'array',
+            description: 'One entry per AWS publish, newest first',
+            items: {
+              allOf: [
+                { $ref: '#/components/schemas/DiffResponse' },
+                {
+                  type: 'object',
+                  properties: {
+                    detectedAt: {
+                      type: 'string',
+                      format: 'date-time',
+                      description: 'When the background sync picked up the publish',
+                    },
+                  },
+                },
+              ],
+            },
+          },
+          filters: {
+            type: 'object',
+            properties: {
+              regions: { type: 'array', items: { type: 'string' } },
+              services: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+      WebhookFilters: {
+        type: 'object',
+        properties: {
+          regions: { type: 'array', items: { type: 'string' }, example: ['eu-west-1'] },
+          services: { type: 'array', items: { type: 'string' }, example: ['CLOUDFRONT'] },
+          includeIPv4: { type: 'boolean', default: true },
+          includeIPv6: { type: 'boolean', default: true },
+        },
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Delivery id, also sent as X-IPMapAWS-Delivery' },
+          syncToken: { type: 'string', example: '1705401045' },
+          success: { type: 'boolean' },
+          attempts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                attempt: { type: 'integer', example: 1 },
+                at: { type: 'string', format: 'date-time' },
+                durationMs: { type: 'integer', example: 120 },
+                status: { type: 'integer', description: 'HTTP status returned by the receiver', example: 200 },
+                error: { type: 'string', description: 'Network error, when no response was received' },
+              },
+            },
+          },
+        },
+      },
+      Webhook: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: '9f86d081884c7d659a2feaa0c55ad015' },
+          url: { type: 'string', format: 'uri', example: 'https://firewall.example.com/aws-ip-ranges' },
+          filters: { $ref: '#/components/schemas/WebhookFilters' },
+          createdAt: { type: 'string', format: 'date-time' },
+          deliveries: {
+            type: 'array',
+            description: 'Delivery log, most recent first (last 50)',
+            items: { $ref: '#/components/schemas/WebhookDelivery' },
+          },
         },
       },
       Error: {
@@ -235,6 +560,16 @@ const swaggerDefinition = {
           example: 'EC2,S3',
         },
       },
+      ExcludeServices: {
+        name: 'excludeServices',
+        in: 'query',
+        description: 'Comma-separated list of AWS services whose address space is subtracted from the results (e.g. services=AMAZON&excludeServices=EC2). The remaining addresses are returned as the minimal set of CIDRs',
+        required: false,
+        schema: {
+          type: 'string',
+          example: 'EC2',
+        },
+      },
       SearchTerm: {
         name: 'searchTerm',
         in: 'query',
@@ -245,6 +580,17 @@ const swaggerDefinition = {
           example: 'ec2',
         },
       },
+      MatchMode: {
+        name: 'matchMode',
+        in: 'query',
+        description: 'How an IP or CIDR search term is matched: prefixes that overlap it, contain it, or lie within it, or a plain text match. Terms that are not an IP or CIDR always use text matching',
+        required: false,
+        schema: {
+          type: 'string',
+          enum: ['overlaps', 'contains', 'within', 'text'],
+          default: 'overlaps',
+        },
+      },
       IncludeIPv4: {
         name: 'includeIPv4',
         in: 'query',
@@ -265,10 +611,20 @@ const swaggerDefinition = {
           default: true,
         },
       },
+      Aggregate: {
+        name: 'aggregate',
+        in: 'query',
+        description: 'Collapse the filtered prefixes into the smallest equivalent set of CIDRs by merging nested and adjacent blocks. Region, service and network border group of each merged block list the distinct values it was built from',
+        required: false,
+        schema: {
+          type: 'boolean',
+          default: false,
+        },
+      },
       SortField: {
         name: 'sortField',
         in: 'query',
-        description: 'Field to sort by',
+        description: 'Field to sort by. Prefixes sort numerically by network address, IPv4 before IPv6',
         required: false,
         schema: {
           type: 'string',
@@ -287,8 +643,45 @@ const swaggerDefinition = {
           default: 'asc',
         },
       },
+      SyncToken: {
+        name: 'syncToken',
+        in: 'query',
+        description: 'Query a stored historical version instead of the current data (see /api/aws-ip-ranges/versions)',
+        required: false,
+        schema: {
+          type: 'string',
+          example: '1705314645',
+        },
+      },
+      IfNoneMatch: {
+        name: 'If-None-Match',
+        in: 'header',
+        description: 'ETag from a previous response; answered with 304 while the data and query are unchanged',
+        required: false,
+        schema: { type: 'string', example: 'W/"1705314645"' },
+      },
+      IfModifiedSince: {
+        name: 'If-Modified-Since',
+        in: 'header',
+        description: 'Last-Modified from a previous response; ignored when If-None-Match is sent',
+        required: false,
+        schema: { type: 'string', example: 'Mon, 15 Jan 2024 10:30:45 GMT' },
+      },
     },
     responses: {
+      NotModified: {
+        description: 'The data has not changed since the cached copy. Does not count against the rate limit.',
+        headers: {
+          ETag: {
+            description: 'Validator for this version of the data and query',
+            schema: { type: 'string' },
+          },
+          'Last-Modified': {
+            description: 'AWS createDate of the data',
+            schema: { type: 'string' },
+          },
+        },
+      },
       RateLimitExceeded: {
         description: 'Rate limit exceeded',
         headers: {
@@ -315,6 +708,14 @@ const swaggerDefinition = {
           },
         },
       },
+      VersionNotFound: {
+        description: 'No snapshot is stored for the requested syncToken',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' },
+          },
+        },
+      },
       ServiceUnavailable: {
         description: 'Service temporarily unavailable (data syncing)',
         content: {
@@ -324,12 +725,19 @@ const swaggerDefinition = {
         },
       },
     },
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Webhook registration token, or the owner token returned when a webhook is created',
+      },
+    },
   },
 };
 
 const options = {
   definition: swaggerDefinition,
-  apis: ['./src/app/api/**/*.ts'], // Path to the API files
+  apis: ['./src/app/api/**/*.ts', './src/app/feeds/**/*.ts'], // Path to the API files
 };
 
 export const swaggerSpec = swaggerJSDoc(options); 
\ No newline at end of file
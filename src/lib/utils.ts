@@ -1,8 +1,7 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import Papa from 'papaparse';
 import copy from 'clipboard-copy';
-import { CombinedPrefix } from '@/types';
+import { parseCIDR } from '@/lib/ip';
 
 /**
  * Merges class names using clsx and tailwind-merge
@@ -11,34 +10,6 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-/**
- * Exports data to CSV format
- */
-export function exportToCSV(data: CombinedPrefix[], filename: string = 'aws-ip-ranges.csv'): void {
-  try {
-    const csv = Papa.unparse(data, {
-      header: true,
-      columns: ['prefix', 'region', 'service', 'network_border_group', 'type'],
-    });
-
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    
-    if (link.download !== undefined) {
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', filename);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    }
-  } catch (error) {
-    console.error('Error exporting CSV:', error);
-    throw new Error('Failed to export CSV file');
-  }
-}
-
 /**
  * Copies text to clipboard
  */
@@ -96,6 +67,18 @@ export function formatDate(dateString: string): string {
   }
 }
 
+/**
+ * Parses an AWS createDate ("2025-07-15-23-33-17", UTC) into a Date
+ */
+export function parseAWSCreateDate(createDate: string): Date | null {
+  const parts = createDate.split('-');
+  if (parts.length !== 6) return null;
+
+  const [year, month, day, hour, minute, second] = parts;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * Formats a number with thousands separators
  */
@@ -104,13 +87,11 @@ export function formatNumber(num: number): string {
 }
 
 /**
- * Validates if a string is a valid CIDR notation
+ * Validates if a string is a valid IPv4 or IPv6 CIDR notation, including
+ * compressed (::) and embedded IPv4 forms. Use normalizeCIDR for the canonical form.
  */
 export function isValidCIDR(cidr: string): boolean {
-  const cidrRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\/(?:[0-9]|[1-2][0-9]|3[0-2])$/;
-  const ipv6CidrRegex = /^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\/([0-9]|[1-9][0-9]|1[0-1][0-9]|12[0-8])$/;
-  
-  return cidrRegex.test(cidr) || ipv6CidrRegex.test(cidr);
+  return parseCIDR(cidr) !== null;
 }
 
 /**
@@ -0,0 +1,245 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { IPRangesDiff, WebhookAttempt, WebhookDelivery, WebhookPayload, WebhookSubscription } from '@/types';
+import { filterDiff } from '@/lib/diff';
+import { isPublicAddress, parseIP } from '@/lib/ip';
+
+export const SIGNATURE_HEADER = 'X-IPMapAWS-Signature';
+export const TIMESTAMP_HEADER = 'X-IPMapAWS-Timestamp';
+// How old a signed timestamp may be before receivers should reject it (replay protection)
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Waits before the 2nd, 3rd and 4th attempts
+const DEFAULT_RETRY_DELAYS = [1000, 5000, 30000];
+const ATTEMPT_TIMEOUT = 10000;
+
+export interface DeliveryOptions {
+  retryDelays?: number[];
+  timeoutMs?: number;
+}
+
+export class WebhookURLError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookURLError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, WebhookURLError.prototype);
+  }
+}
+
+/**
+ * Whether the app runs locally for development or tests, where webhooks may
+ * target private addresses and registration needs no token
+ */
+export function isLocalEnvironment(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Random hex identifier, used for webhook ids, secrets, owner tokens and delivery ids
+ */
+export function generateToken(bytes = 16): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Hex SHA-256 of a token, so stored tokens can be checked without being kept
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Encrypts a webhook secret with AES-256-GCM for storage: base64 IV, auth tag
+ * and ciphertext joined with dots
+ */
+export function encryptSecret(secret: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Reverses encryptSecret; throws when the key is wrong or the value was tampered with
+ */
+export function decryptSecret(value: string, key: Buffer): string {
+  const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Compares two tokens in constant time
+ */
+export function tokensEqual(a: string, b: string): boolean {
+  return timingSafeEqual(Buffer.from(hashToken(a), 'hex'), Buffer.from(hashToken(b), 'hex'));
+}
+
+/**
+ * Parses a webhook URL and checks that it is http(s) and that its host only
+ * resolves to public addresses, so webhooks can't be aimed at loopback,
+ * private or link-local services (e.g. cloud metadata endpoints)
+ */
+export async function validateWebhookURL(value: string, allowPrivate = isLocalEnvironment()): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new WebhookURLError('"url" must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new WebhookURLError('"url" must be an absolute http(s) URL');
+  }
+  if (allowPrivate) {
+    return url;
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (parseIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new WebhookURLError(`"url" host "${hostname}" could not be resolved`);
+    }
+  }
+
+  if (addresses.some((address) => {
+    const ip = parseIP(address);
+    return !ip || !isPublicAddress(ip);
+  })) {
+    throw new WebhookURLError('"url" must not point at a loopback, private or link-local address');
+  }
+  return url;
+}
+
+/**
+ * Signs a request with the webhook secret: "sha256=" + hex HMAC-SHA256 of
+ * "<timestamp>.<body>", so a captured request can't be replayed later with a new timestamp
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a signature header against the timestamp and body, in constant time.
+ * Timestamps more than SIGNATURE_TOLERANCE_SECONDS from now are rejected.
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: number = Date.now()
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Builds the payload for one subscription, or null when none of the changes
+ * match its filters
+ */
+export function buildWebhookPayload(subscription: WebhookSubscription, diff: IPRangesDiff): WebhookPayload | null {
+  const filtered = filterDiff(diff, subscription.filters);
+  if (filtered.summary.added + filtered.summary.removed + filtered.summary.changed === 0) {
+    return null;
+  }
+
+  return {
+    id: generateToken(),
+    event: 'ip-ranges.changed',
+    webhookId: subscription.id,
+    createdAt: new Date().toISOString(),
+    filters: subscription.filters,
+    diff: filtered,
+  };
+}
+
+// Client errors other than 408 and 429 won't go away by sending the same request again
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * POSTs a signed payload to the subscription URL, retrying failed attempts
+ * with increasing delays. Every attempt is recorded in the returned delivery.
+ */
+export async function deliverWebhook(
+  subscription: WebhookSubscription,
+  payload: WebhookPayload,
+  options: DeliveryOptions = {}
+): Promise<WebhookDelivery> {
+  const retryDelays = options.retryDelays || DEFAULT_RETRY_DELAYS;
+  const body = JSON.stringify(payload);
+  const attempts: WebhookAttempt[] = [];
+
+  // Checked again on every delivery, since the host's DNS can change after registration
+  try {
+    await validateWebhookURL(subscription.url);
+  } catch (error) {
+    attempts.push({
+      attempt: 1,
+      at: new Date().toISOString(),
+      durationMs: 0,
+      error: error instanceof Error ? error.message : 'Invalid webhook URL',
+    });
+    return { id: payload.id, syncToken: payload.diff.to.syncToken, success: false, attempts };
+  }
+
+  for (let attempt = 1; attempt <= retryDelays.length + 1; attempt++) {
+    if (attempt > 1) {
+      await wait(retryDelays[attempt - 2]);
+    }
+
+    const startTime = Date.now();
+    const record: WebhookAttempt = { attempt, at: new Date(startTime).toISOString(), durationMs: 0 };
+    attempts.push(record);
+
+    try {
+      // Each attempt is signed afresh so retries stay within the receiver's tolerance
+      const timestamp = Math.floor(startTime / 1000);
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'IPMapAWS/1.0 (Webhooks)',
+          'X-IPMapAWS-Event': payload.event,
+          'X-IPMapAWS-Delivery': payload.id,
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signPayload(subscription.secret, timestamp, body),
+        },
+        body,
+        // A redirect could lead to an address the URL check would have rejected
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeoutMs || ATTEMPT_TIMEOUT),
+      });
+      record.status = response.status;
+      record.durationMs = Date.now() - startTime;
+
+      if (response.ok) {
+        return { id: payload.id, syncToken: payload.diff.to.syncToken, success: true, attempts };
+      }
+      if (!isRetryable(response.status)) {
+        break;
+      }
+    } catch (error) {
+      record.durationMs = Date.now() - startTime;
+      record.error = error instanceof Error ? error.message : 'Request failed';
+    }
+  }
+
+  return { id: payload.id, syncToken: payload.diff.to.syncToken, success: false, attempts };
+}
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { put, list, del } from '@vercel/blob';
+import { IPRangesDiff, WebhookFilters, WebhookRegistration, WebhookSubscription, WebhookView } from '@/types';
+import {
+  buildWebhookPayload,
+  decryptSecret,
+  deliverWebhook,
+  encryptSecret,
+  generateToken,
+  hashToken,
+  isLocalEnvironment,
+  tokensEqual,
+} from './webhook-delivery';
+
+const WEBHOOKS_BLOB_PREFIX = 'cache/webhooks';
+const MAX_WEBHOOKS = 500;
+// Keeps a single client from using up the global limit
+const MAX_WEBHOOKS_PER_CLIENT = 5;
+const MAX_LOGGED_DELIVERIES = 50;
+
+// In-memory fallback when blob storage is unavailable
+let memoryWebhooks: WebhookSubscription[] = [];
+// Tail of the queue that runs this instance's changes one at a time
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+export class WebhookLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookLimitError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, WebhookLimitError.prototype);
+  }
+}
+
+/**
+ * Reads the token from an "Authorization: Bearer <token>" header
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Registration needs WEBHOOK_REGISTRATION_TOKEN as a bearer token. When none
+ * is configured it is only open while developing and testing locally.
+ */
+export function canRegisterWebhooks(token: string | null): boolean {
+  const expected = process.env.WEBHOOK_REGISTRATION_TOKEN;
+  if (!expected) {
+    return isLocalEnvironment();
+  }
+  return token !== null && tokensEqual(token, expected);
+}
+
+/**
+ * Checks the bearer token that was returned when the webhook was created
+ */
+export function isWebhookOwner(webhook: WebhookSubscription, token: string | null): boolean {
+  return token !== null && !!webhook.ownerTokenHash && tokensEqual(hashToken(token), webhook.ownerTokenHash);
+}
+
+// Blobs are public, so secrets are only stored encrypted with this key
+function secretKey(): Buffer | null {
+  const key = process.env.WEBHOOK_SECRET_KEY;
+  return key ? createHash('sha256').update(key).digest() : null;
+}
+
+async function loadWebhooks(): Promise<WebhookSubscription[]> {
+  const key = secretKey();
+  if (!key) {
+    return memoryWebhooks;
+  }
+
+  try {
+    const { blobs } = await list({ prefix: WEBHOOKS_BLOB_PREFIX });
+    const latest = blobs.sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())[0];
+
+    if (latest) {
+      const response = await fetch(latest.url, { cache: 'no-store' });
+      const stored: WebhookSubscription[] = JSON.parse(await response.text());
+      const webhooks = stored.map((webhook) => ({ ...webhook, secret: decryptSecret(webhook.secret, key) }));
+      memoryWebhooks = webhooks;
+      return webhooks;
+    }
+  } catch (error) {
+    console.log('Webhook store unavailable, using memory webhooks:', error);
+  }
+
+  return memoryWebhooks;
+}
+
+async function saveWebhooks(webhooks: WebhookSubscription[]): Promise<void> {
+  memoryWebhooks = webhooks;
+
+  const key = secretKey();
+  if (!key) {
+    console.log('WEBHOOK_SECRET_KEY is not set, keeping webhooks in memory only');
+    return;
+  }
+
+  try {
+    const stored = webhooks.map((webhook) => ({ ...webhook, secret: encryptSecret(webhook.secret, key) }));
+    // The store also gets an unguessable name, since it lists subscriber URLs
+    const { blobs } = await list({ prefix: WEBHOOKS_BLOB_PREFIX });
+    await put(`${WEBHOOKS_BLOB_PREFIX}.json`, JSON.stringify(stored), {
+      access: 'public',
+      addRandomSuffix: true,
+      contentType: 'application/json',
+    });
+    if (blobs.length > 0) {
+      await del(blobs.map((blob) => blob.url));
+    }
+  } catch (error) {
+    console.log('Webhook storage failed, keeping webhooks in memory only:', error);
+    // Don't throw - webhooks still work for the lifetime of this instance
+  }
+}
+
+/**
+ * Loads the webhooks, applies a change and saves the result. Changes made by
+ * this instance run one at a time, each on freshly loaded webhooks, so a
+ * concurrent change can't be overwritten by a stale copy. Returning null skips the save.
+ */
+function updateWebhooks(
+  update: (webhooks: WebhookSubscription[]) => WebhookSubscription[] | null
+): Promise<void> {
+  const run = pendingUpdate.then(async () => {
+    const updated = update(await loadWebhooks());
+    if (updated) {
+      await saveWebhooks(updated);
+    }
+  });
+  pendingUpdate = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Registers a webhook for a client. The result holds the signing secret and
+ * the owner token, neither of which can be read back later.
+ */
+export async function createWebhook(
+  url: string,
+  filters: WebhookFilters,
+  clientId: string
+): Promise<WebhookRegistration> {
+  const token = generateToken(32);
+  const clientHash = hashToken(clientId);
+  const subscription: WebhookSubscription = {
+    id: generateToken(),
+    url,
+    secret: generateToken(32),
+    ownerTokenHash: hashToken(token),
+    clientHash,
+    filters,
+    createdAt: new Date().toISOString(),
+    deliveries: [],
+  };
+
+  await updateWebhooks((webhooks) => {
+    if (webhooks.length >= MAX_WEBHOOKS) {
+      throw new WebhookLimitError(`Webhook limit of ${MAX_WEBHOOKS} reached`);
+    }
+    if (webhooks.filter((webhook) => webhook.clientHash === clientHash).length >= MAX_WEBHOOKS_PER_CLIENT) {
+      throw new WebhookLimitError(`Each client can register at most ${MAX_WEBHOOKS_PER_CLIENT} webhooks`);
+    }
+    return webhooks.concat(subscription);
+  });
+  return { ...withoutSecret(subscription), secret: subscription.secret, token };
+}
+
+/**
+ * The subscription as shown to its owner: everything but the secret and hashes
+ */
+export function withoutSecret(webhook: WebhookSubscription): WebhookView {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    filters: webhook.filters,
+    createdAt: webhook.createdAt,
+    deliveries: webhook.deliveries,
+  };
+}
+
+export async function getWebhook(id: string): Promise<WebhookSubscription | null> {
+  const webhooks = await loadWebhooks();
+  return webhooks.find((webhook) => webhook.id === id) || null;
+}
+
+/**
+ * Removes a webhook; returns false when it doesn't exist
+ */
+export async function deleteWebhook(id: string): Promise<boolean> {
+  let removed = false;
+  await updateWebhooks((webhooks) => {
+    const remaining = webhooks.filter((webhook) => webhook.id !== id);
+    removed = remaining.length !== webhooks.length;
+    return removed ? remaining : null;
+  });
+  return removed;
+}
+
+/**
+ * Sends the diff of a sync to every webhook whose filters it matches and
+ * records the outcome in each webhook's delivery log
+ */
+export async function notifyWebhooks(diff: IPRangesDiff): Promise<void> {
+  const webhooks = await loadWebhooks();
+
+  const deliveries = await Promise.all(webhooks.map(async (webhook) => {
+    const payload = buildWebhookPayload(webhook, diff);
+    return payload ? deliverWebhook(webhook, payload) : null;
+  }));
+
+  const delivered = deliveries.filter((delivery) => delivery !== null).length;
+  if (delivered === 0) {
+    return;
+  }
+
+  const failed = deliveries.filter((delivery) => delivery && !delivery.success).length;
+  console.log(`[Webhooks] Sent ${diff.to.syncToken} to ${delivered} webhooks (${failed} failed)`);
+
+  // Re-read so webhooks created or deleted while delivering aren't lost or revived
+  await updateWebhooks((current) => current.map((webhook) => {
+    const index = webhooks.findIndex((sent) => sent.id === webhook.id);
+    const delivery = index === -1 ? null : deliveries[index];
+    if (!delivery) return webhook;
+
+    return {
+      ...webhook,
+      deliveries: [delivery].concat(webhook.deliveries).slice(0, MAX_LOGGED_DELIVERIES),
+    };
+  }));
+}
\ No newline at end of file
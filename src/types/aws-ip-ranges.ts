@@ -33,11 +33,16 @@ export interface CombinedPrefix {
   type: 'ipv4' | 'ipv6';
 }
 
+// How an IP/CIDR search term is matched against prefixes
+export type MatchMode = 'text' | 'contains' | 'within' | 'overlaps';
+
 // Filter options
 export interface FilterOptions {
   regions: string[];
   services: string[];
+  excludeServices: string[];
   searchTerm: string;
+  matchMode: MatchMode;
   includeIPv4: boolean;
   includeIPv6: boolean;
 }
@@ -61,11 +66,18 @@ export interface SearchPagination {
   hasPrev: boolean;
 }
 
+// How many filtered prefixes were collapsed (or left after subtraction) into how many CIDR blocks
+export interface AggregationSummary {
+  inputCount: number;
+  outputCount: number;
+}
+
 export interface SearchResponse {
   data: CombinedPrefix[];
   pagination: SearchPagination;
   filters: FilterOptions;
   sorting: SortOptions;
+  aggregation?: AggregationSummary;
 }
 
 // API response types
@@ -99,13 +111,25 @@ export interface PrefixTableProps {
   className?: string;
 }
 
+// Response formats of the export endpoint
+export type ExportFormat =
+  | 'json' | 'txt' | 'csv' | 'ndjson'
+  | 'ipset' | 'iptables' | 'nftables'
+  | 'prefix-list' | 'security-group'
+  | 'terraform' | 'cloudformation' | 'cloudformation-json' | 'cdk-ts'
+  | 'k8s' | 'cilium' | 'calico'
+  | 'nginx' | 'nginx-geo' | 'haproxy' | 'apache' | 'caddy'
+  | 'cisco' | 'juniper' | 'mikrotik' | 'pf';
+
 export interface ExportResponse {
   data: CombinedPrefix[];
   total: number;
   filters: {
     regions: string[];
     services: string[];
+    excludeServices: string[];
     searchTerm: string;
+    matchMode: MatchMode;
     includeIPv4: boolean;
     includeIPv6: boolean;
   };
@@ -113,14 +137,47 @@ export interface ExportResponse {
     field: SortField;
     direction: SortDirection;
   };
+  aggregation?: AggregationSummary;
   timestamp: string;
 }
 
+// IP lookup response types
+export interface LookupResponse {
+  ip: string;
+  type: 'ipv4' | 'ipv6';
+  isAWS: boolean;
+  matches: CombinedPrefix[];
+  syncToken: string;
+  createDate: string;
+}
+
+// Bulk classification response types
+export interface AddressClassification {
+  input: string;
+  status: 'aws' | 'not-aws' | 'invalid';
+  type?: 'ipv4' | 'ipv6';
+  isAWS: boolean;
+  matches: CombinedPrefix[];
+  truncated?: boolean; // More prefixes overlap the input than were returned
+}
+
+export interface ClassifyResponse {
+  results: AddressClassification[];
+  summary: {
+    total: number;
+    aws: number;
+    notAWS: number;
+    invalid: number;
+  };
+  syncToken: string;
+  createDate: string;
+}
+
 export interface ExportButtonProps {
   filters: FilterOptions;
   sortField: SortField;
   sortDirection: SortDirection;
-  filename?: string;
+  format?: Exclude<ExportFormat, 'json'>;
   disabled?: boolean;
   className?: string;
 }
@@ -148,6 +205,166 @@ export interface IPRangeStats {
   lastUpdated: string;
 }
 
+// Snapshot history types
+export interface SnapshotVersion {
+  syncToken: string;
+  createDate: string;
+  storedAt: string;
+  ipv4Count: number;
+  ipv6Count: number;
+}
+
+export interface VersionsResponse {
+  versions: SnapshotVersion[];
+  current: string | null;
+  retention: number;
+}
+
+// Version diff types
+export interface PrefixAttributes {
+  region: string;
+  service: string;
+  network_border_group: string;
+}
+
+export interface PrefixChange {
+  prefix: string;
+  type: 'ipv4' | 'ipv6';
+  // Every entry for the prefix in each version (a prefix is often listed under AMAZON and a service)
+  before: PrefixAttributes[];
+  after: PrefixAttributes[];
+}
+
+export interface VersionRef {
+  syncToken: string;
+  createDate: string;
+}
+
+export interface IPRangesDiff {
+  from: VersionRef;
+  to: VersionRef;
+  added: CombinedPrefix[];
+  removed: CombinedPrefix[];
+  changed: PrefixChange[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+// Change history types
+export interface ChangeLogEntry extends IPRangesDiff {
+  detectedAt: string;
+}
+
+export interface DiffGroupSummary {
+  region: string;
+  service: string;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface ChangesResponse {
+  changes: ChangeLogEntry[];
+  filters: {
+    regions: string[];
+    services: string[];
+  };
+}
+
+// Webhook types
+export interface WebhookFilters {
+  regions: string[];
+  services: string[];
+  includeIPv4: boolean;
+  includeIPv6: boolean;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  durationMs: number;
+  // HTTP status of the receiver's response; absent when the request failed outright
+  status?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  syncToken: string;
+  success: boolean;
+  attempts: WebhookAttempt[];
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // Shared secret for the X-IPMapAWS-Signature header; only returned when the webhook is created
+  secret: string;
+  // SHA-256 of the bearer token that manages this webhook; the token itself is only returned when it is created
+  ownerTokenHash: string;
+  // SHA-256 of the registering client's address, for the per-client limit
+  clientHash: string;
+  filters: WebhookFilters;
+  createdAt: string;
+  // Most recent deliveries first
+  deliveries: WebhookDelivery[];
+}
+
+// A webhook as shown to its owner
+export type WebhookView = Omit<WebhookSubscription, 'secret' | 'ownerTokenHash' | 'clientHash'>;
+
+// Returned once, when the webhook is created
+export interface WebhookRegistration extends WebhookView {
+  secret: string;
+  token: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: 'ip-ranges.changed';
+  webhookId: string;
+  createdAt: string;
+  filters: WebhookFilters;
+  diff: IPRangesDiff;
+}
+
+// Feed validation types
+export type FeedIssueKind = 'invalid' | 'wrong-family' | 'host-bits' | 'non-canonical';
+
+export interface FeedIssue {
+  kind: FeedIssueKind;
+  field: 'ip_prefix' | 'ipv6_prefix';
+  value: string;
+  // Canonical form the entry was rewritten to; absent when the entry was dropped
+  normalized?: string;
+  region: string;
+  service: string;
+}
+
+export interface FeedValidationReport {
+  syncToken: string;
+  createDate: string;
+  checkedAt: string;
+  total: number;
+  normalized: number;
+  dropped: number;
+  issues: FeedIssue[];
+}
+
+export interface SyncStatus {
+  running: boolean;
+  interval: number;
+  environment: string;
+  lastValidation: FeedValidationReport | null;
+}
+
+export interface SyncStatusResponse extends SyncStatus {
+  timestamp: string;
+}
+
 // Error types
 export interface IPRangeError {
   message: string;